@@ -1,30 +1,88 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useGameEngine } from './hooks/useGameEngine';
-import GameMap from './components/GameMap';
+import GameMap, { CommandMode } from './components/GameMap';
 import HUD from './components/HUD';
-import { UnitType, BuildingType, EntityType, Unit, Building, PlayerType, MAP_WIDTH, MAP_HEIGHT } from './types';
-import { UNIT_COSTS, BUILDING_COSTS, BUILDING_STATS, FARM_MAX_FOOD } from './constants';
+import Minimap from './components/Minimap';
+import ReplayViewer from './components/ReplayViewer';
+import SaveLoadMenu from './components/SaveLoadMenu';
+import MatchSetupScreen from './components/MatchSetupScreen';
+import LobbyScreen from './components/LobbyScreen';
+import LiveSpectator from './components/LiveSpectator';
+import { UnitTypeId, EntityType, Unit, Building, CommandType, TechType, MatchSetup, FormationType, UnitStance } from './types';
+import { Replay, serializeReplay, parseReplay } from './engine/replay';
+import { downloadTextFile, pickTextFile } from './utils/files';
+import { isDropOffFor } from './engine/gathering';
+import { validatePlacement, getWallSpots } from './engine/placement';
+import { unitHasAbility, buildingHasAbility, getTrainableUnits } from './engine/definitions';
+import { areEnemies, getHumanPlayers } from './engine/players';
+import { combineSelection, getControlGroup, getNextIdleWorker, selectMilitary } from './engine/selection';
+import { getCentroid } from './engine/spectator';
+import { clampCamera, cameraCenteredOn } from './hooks/useCameraControls';
+import { GROUP_DOUBLE_TAP_TIME, MAX_PATROL_WAYPOINTS } from './constants';
+import { createNetClient, NetClient } from './net/client';
+import { OnlineSettings, saveOnlineSettings } from './utils/onlineSession';
 
-const App: React.FC = () => {
-  const { gameState, setGameState, stateRef } = useGameEngine();
-  const [commandMode, setCommandMode] = useState<'ATTACK' | null>(null);
+interface GameProps {
+  setup: MatchSetup;
+  net: NetClient | null;
+  onWatchReplay: (replay: Replay) => void;
+  onNewMatch: () => void;
+  // Set while the replay viewer covers the match
+  hidden: boolean;
+}
+
+const Game: React.FC<GameProps> = ({ setup, net, onWatchReplay, onNewMatch, hidden }) => {
+  const {
+    gameState, setGameState, stateRef, issueCommand, notice, getReplay, saveGame, loadGame,
+    localPlayer, online, waiting, desyncTick
+  } = useGameEngine(setup, net, hidden);
+  // For handlers registered once
+  const localPlayerRef = useRef(localPlayer);
+  localPlayerRef.current = localPlayer;
+  const hiddenRef = useRef(hidden);
+  hiddenRef.current = hidden;
+  const [commandMode, setCommandMode] = useState<CommandMode | null>(null);
+  // Points clicked so far while laying out a patrol route
+  const patrolPointsRef = useRef<{ x: number; y: number }[]>([]);
+  const [menuOpen, setMenuOpen] = useState(false);
+  // Used by every group move and attack-move
+  const [formation, setFormation] = useState(FormationType.Line);
 
   // --- CONTROLS ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+        if (hiddenRef.current) return;
         const key = e.key.toLowerCase();
         
         // Actions
         if (key === 'h') { // Stop
-             const newEntities = { ...stateRef.current.entities };
-             stateRef.current.selectedEntityIds.forEach(id => {
-                const u = newEntities[id] as Unit;
-                if(u && u.entityType === EntityType.Unit) { u.state = 'IDLE'; u.targetId = null; u.moveTarget = null; }
-             });
+             const unitIds = getSelectedUnitIds();
+             if (unitIds.length > 0) issueCommand({ type: CommandType.Stop, player: localPlayerRef.current, unitIds });
         }
         if (key === 'r') { // Attack Move Mode
             if (stateRef.current.selectedEntityIds.length > 0) setCommandMode('ATTACK');
         }
+        if (key === 'p') { // Patrol Mode
+            patrolPointsRef.current = [];
+            if (getSelectedUnitIds().length > 0) setCommandMode('PATROL');
+        }
+        if (key === 'g') { // Guard / Follow Mode
+            if (getSelectedUnitIds().length > 0) setCommandMode('GUARD');
+        }
+        if (/^[0-9]$/.test(key)) {
+            e.preventDefault();
+            handleControlGroup(Number(key), e.ctrlKey || e.metaKey);
+        }
+        if (key === '.') { // Next idle peasant
+            const id = getNextIdleWorker(stateRef.current, localPlayerRef.current, stateRef.current.selectedEntityIds);
+            if (id) {
+                handleSelection([id], false);
+                lookAt([id]);
+            }
+        }
+        if (key === ',') { // All military
+            handleSelection(selectMilitary(stateRef.current, localPlayerRef.current), false);
+        }
         if (key === 'escape') {
             setCommandMode(null);
             setGameState(prev => ({ ...prev, buildingToPlace: null }));
@@ -34,39 +92,86 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  const handleSelection = (idOrList: string, multi: boolean) => {
+  // Own units in the current selection; orders never include anything else
+  const getSelectedUnitIds = () => {
+      const { selectedEntityIds, entities } = stateRef.current;
+      return selectedEntityIds.filter(id => {
+          const e = entities[id];
+          return e && e.entityType === EntityType.Unit && e.owner === localPlayerRef.current;
+      });
+  };
+
+  // The selected building, if it is ours and trains units
+  const getSelectedProducer = () => {
+      const { selectedEntityIds, entities } = stateRef.current;
+      const e = entities[selectedEntityIds[0]];
+      if (!e || e.entityType !== EntityType.Building || e.owner !== localPlayerRef.current) return null;
+      return getTrainableUnits((e as Building).buildingType).length > 0 ? e as Building : null;
+  };
+
+  const handleSelection = (ids: string[], add: boolean) => {
       setCommandMode(null);
-      let ids: string[] = [];
-      if (multi) {
-          ids = idOrList.split(',').filter(s => s.length > 0);
-      } else {
-          ids = idOrList ? [idOrList] : [];
+      const state = stateRef.current;
+      state.selectedEntityIds = add ? combineSelection(state, localPlayerRef.current, state.selectedEntityIds, ids) : ids;
+      setGameState({ ...state });
+  };
+
+  const lookAt = (ids: string[]) => {
+      const center = getCentroid(stateRef.current, ids);
+      if (!center) return;
+      Object.assign(stateRef.current.camera, cameraCenteredOn(center.x, center.y));
+      clampCamera(stateRef.current.camera);
+  };
+
+  // Control groups are this client's own shortcuts and are not saved
+  const controlGroupsRef = useRef<Record<number, string[]>>({});
+  const lastGroupTapRef = useRef<{ group: number; time: number } | null>(null);
+
+  const handleControlGroup = (group: number, assign: boolean) => {
+      const state = stateRef.current;
+      if (assign) {
+          controlGroupsRef.current[group] = getControlGroup(state, localPlayerRef.current, state.selectedEntityIds);
+          return;
       }
-      
-      stateRef.current.selectedEntityIds = ids;
-      setGameState({ ...stateRef.current });
+      const ids = getControlGroup(state, localPlayerRef.current, controlGroupsRef.current[group]);
+      controlGroupsRef.current[group] = ids;
+      if (ids.length === 0) return;
+      const now = performance.now();
+      const last = lastGroupTapRef.current;
+      if (last && last.group === group && now - last.time < GROUP_DOUBLE_TAP_TIME) lookAt(ids);
+      lastGroupTapRef.current = { group, time: now };
+      handleSelection(ids, false);
   };
 
   const handleAttackMove = (coords: { x: number; y: number }, targetId?: string) => {
       setCommandMode(null);
-      const newEntities = { ...stateRef.current.entities };
-      
-      stateRef.current.selectedEntityIds.forEach(id => {
-          const entity = newEntities[id];
-          if (entity && entity.owner === PlayerType.Human && entity.entityType === EntityType.Unit) {
-              const unit = entity as Unit;
-              if (targetId) {
-                  unit.targetId = targetId;
-                  unit.state = 'ATTACKING';
-                  unit.moveTarget = null;
-              } else {
-                  unit.moveTarget = coords;
-                  unit.state = 'ATTACK_MOVING';
-                  unit.targetId = null;
-              }
-          }
-      });
-      setGameState({ ...stateRef.current }); 
+      const unitIds = getSelectedUnitIds();
+      if (unitIds.length === 0) return;
+
+      if (targetId) {
+          issueCommand({ type: CommandType.Attack, player: localPlayer, unitIds, targetId });
+      } else {
+          issueCommand({ type: CommandType.AttackMove, player: localPlayer, unitIds, target: coords, formation });
+      }
+  };
+
+  // The route runs through every clicked point and back to where the units stand
+  const handlePatrol = (coords: { x: number; y: number }, more: boolean) => {
+      const points = [...patrolPointsRef.current, coords];
+      patrolPointsRef.current = points;
+      if (more && points.length < MAX_PATROL_WAYPOINTS - 1) return;
+      setCommandMode(null);
+      patrolPointsRef.current = [];
+      const unitIds = getSelectedUnitIds();
+      const start = getCentroid(stateRef.current, unitIds);
+      if (!start) return;
+      issueCommand({ type: CommandType.Patrol, player: localPlayer, unitIds, waypoints: [...points, start] });
+  };
+
+  const handleGuard = (targetId?: string) => {
+      setCommandMode(null);
+      const unitIds = getSelectedUnitIds();
+      if (targetId && unitIds.length > 0) issueCommand({ type: CommandType.Guard, player: localPlayer, unitIds, targetId });
   };
 
   const handleRightClick = (coords: { x: number; y: number }, targetId?: string) => {
@@ -76,115 +181,139 @@ const App: React.FC = () => {
         return;
     }
 
-    const { selectedEntityIds, entities } = stateRef.current;
-    
-    selectedEntityIds.forEach(id => {
-        const entity = entities[id];
-        if (entity && entity.owner === PlayerType.Human && entity.entityType === EntityType.Unit) {
-            const unit = entity as Unit;
-            unit.moveTarget = { x: coords.x, y: coords.y };
-            unit.state = 'MOVING';
-            unit.targetId = null;
-
-            if (targetId) {
-                const target = entities[targetId];
-                if (target && target.id !== unit.id) {
-                    unit.targetId = targetId;
-                    if (target.owner !== PlayerType.Human && target.entityType !== EntityType.Resource) {
-                        unit.state = 'ATTACKING';
-                        unit.moveTarget = null;
-                    } else if (target.entityType === EntityType.Resource && unit.unitType === UnitType.Peasant) {
-                        unit.state = 'GATHERING';
-                    } else if (target.entityType === EntityType.Building) {
-                        const b = target as Building;
-                        if (unit.unitType === UnitType.Peasant) {
-                             if (!b.isBuilt || b.hp < b.maxHp) {
-                                 unit.state = 'BUILDING';
-                             } else if (b.buildingType === BuildingType.Farm) {
-                                 if ((b.resourceAmount || 0) > 0) {
-                                     unit.state = 'GATHERING'; // Work the farm
-                                 } else {
-                                     // Reseed Logic
-                                     if (stateRef.current.players[PlayerType.Human].resources.wood >= 20) {
-                                         stateRef.current.players[PlayerType.Human].resources.wood -= 20;
-                                         b.resourceAmount = FARM_MAX_FOOD;
-                                         unit.state = 'GATHERING';
-                                     }
-                                 }
-                             }
-                        }
-                    }
-                }
-            }
+    const { entities } = stateRef.current;
+    const units = getSelectedUnitIds().map(id => entities[id] as Unit);
+    const target = targetId ? entities[targetId] : undefined;
+    const player = localPlayer;
+
+    // A production building on its own: set where its units go
+    if (units.length === 0) {
+        const building = getSelectedProducer();
+        if (!building) return;
+        const rallyTarget = target && (target.entityType === EntityType.Resource || target.entityType === EntityType.Unit ||
+            (target.owner === player && buildingHasAbility((target as Building).buildingType, 'farm')));
+        issueCommand({
+            type: CommandType.SetRallyPoint, player, buildingId: building.id, position: coords,
+            ...(rallyTarget ? { targetId: target!.id } : {})
+        });
+        return;
+    }
+
+    const move = (unitIds: string[]) => {
+        if (unitIds.length > 0) issueCommand({ type: CommandType.Move, player, unitIds, target: coords, formation });
+    };
+
+    if (!target || (units.length === 1 && units[0].id === target.id)) {
+        move(units.map(u => u.id));
+        return;
+    }
+
+    if (areEnemies(stateRef.current, player, target.owner)) {
+        issueCommand({ type: CommandType.Attack, player, unitIds: units.map(u => u.id), targetId: target.id });
+        return;
+    }
+
+    // Economy orders only apply to workers; everyone else walks there
+    const peasantIds = units.filter(u => unitHasAbility(u.unitType, 'gather')).map(u => u.id);
+    const otherIds = units.filter(u => !unitHasAbility(u.unitType, 'gather')).map(u => u.id);
+
+    if (peasantIds.length > 0 && target.entityType === EntityType.Resource) {
+        issueCommand({ type: CommandType.Gather, player, unitIds: peasantIds, targetId: target.id });
+        move(otherIds);
+    } else if (peasantIds.length > 0 && target.entityType === EntityType.Building && target.owner === player) {
+        const b = target as Building;
+        if (!b.isBuilt || b.hp < b.maxHp) {
+            issueCommand({ type: CommandType.Build, player, unitIds: peasantIds, targetId: b.id });
+        } else if (buildingHasAbility(b.buildingType, 'farm') && (b.resourceAmount || 0) > 0) {
+            issueCommand({ type: CommandType.Gather, player, unitIds: peasantIds, targetId: b.id }); // Work the farm
+        } else if (buildingHasAbility(b.buildingType, 'farm')) {
+            issueCommand({ type: CommandType.Reseed, player, buildingId: b.id, unitIds: peasantIds });
+        } else if (units.some(u => u.carriedResources > 0 && u.gatherType && isDropOffFor(b, player, u.gatherType))) {
+            issueCommand({ type: CommandType.Gather, player, unitIds: peasantIds, targetId: b.id }); // Drop off the load
+        } else {
+            move(peasantIds);
         }
-    });
-    setGameState({ ...stateRef.current });
+        move(otherIds);
+    } else {
+        move(units.map(u => u.id));
+    }
   };
 
-  const handlePlaceBuilding = (coords: { x: number; y: number }) => {
-     if (!gameState.buildingToPlace) return;
+  // Minimap right click: move there, or attack-move while attack mode is armed
+  const handleMinimapRightClick = (coords: { x: number; y: number }) => {
+    if (commandMode === 'ATTACK') {
+        handleAttackMove(coords);
+        return;
+    }
+    const unitIds = getSelectedUnitIds();
+    if (unitIds.length > 0) issueCommand({ type: CommandType.Move, player: localPlayer, unitIds, target: coords, formation });
+  };
+
+  const handlePlaceBuilding = (coords: { x: number; y: number }, lineTo?: { x: number; y: number }) => {
      const type = gameState.buildingToPlace;
-     const cost = BUILDING_COSTS[type];
-     
-     const players = stateRef.current.players;
-     players[PlayerType.Human].resources.wood -= cost.wood;
-     players[PlayerType.Human].resources.food -= cost.food;
-
-     const id = Math.random().toString(36).substr(2, 9);
-     const newBuilding: Building = {
-         id, entityType: EntityType.Building, buildingType: type, owner: PlayerType.Human,
-         position: coords, hp: 1, maxHp: BUILDING_STATS[type].hp, radius: BUILDING_STATS[type].radius,
-         constructionProgress: 0, isBuilt: false, productionQueue: []
-     };
-     
-     if (type === BuildingType.Farm) {
-         newBuilding.resourceAmount = FARM_MAX_FOOD;
-         newBuilding.maxResourceAmount = FARM_MAX_FOOD;
-         newBuilding.lastGenerationTime = 0;
-     }
-
-     stateRef.current.entities[id] = newBuilding;
-
-     // Assign selected peasants
-     stateRef.current.selectedEntityIds.forEach(uId => {
-         const u = stateRef.current.entities[uId] as Unit;
-         if (u && u.unitType === UnitType.Peasant) {
-             u.targetId = id;
-             u.state = 'BUILDING';
-         }
+     if (!type) return;
+     // Keep the ghost up on a red spot instead of sending an order the engine would refuse
+     if (lineTo ? getWallSpots(stateRef.current, localPlayer, type, coords, lineTo).length === 0 : validatePlacement(stateRef.current, localPlayer, type, coords)) return;
+     const unitIds = getSelectedUnitIds().filter(id => unitHasAbility((stateRef.current.entities[id] as Unit).unitType, 'build'));
+
+     issueCommand({
+         type: CommandType.Build, player: localPlayer, unitIds,
+         buildingType: type, position: coords, ...(lineTo ? { lineTo } : {})
      });
-     
+
      stateRef.current.buildingToPlace = null;
      setGameState({ ...stateRef.current });
   };
 
   const handleAction = (action: string, payload: any) => {
       if (action === 'TRAIN') {
-          const unitType = payload as UnitType;
           const selectedId = gameState.selectedEntityIds[0];
-          const building = stateRef.current.entities[selectedId] as Building;
-          const cost = UNIT_COSTS[unitType];
-
-          if (building && building.productionQueue) {
-              const p = stateRef.current.players[PlayerType.Human];
-              p.resources.wood -= cost.wood;
-              p.resources.food -= cost.food;
-              building.productionQueue.push({ unitType, timeLeft: cost.time * 1000 });
-              setGameState({ ...stateRef.current });
-          }
+          if (!selectedId) return;
+          issueCommand({ type: CommandType.Train, player: localPlayer, buildingId: selectedId, unitType: payload as UnitTypeId });
+      } else if (action === 'RESEARCH') {
+          const selectedId = gameState.selectedEntityIds[0];
+          if (!selectedId) return;
+          issueCommand({ type: CommandType.Research, player: localPlayer, buildingId: selectedId, tech: payload as TechType });
+      } else if (action === 'CANCEL') {
+          const selectedId = gameState.selectedEntityIds[0];
+          if (!selectedId) return;
+          issueCommand({ type: CommandType.CancelProduction, player: localPlayer, buildingId: selectedId, index: payload as number });
+      } else if (action === 'STANCE') {
+          const unitIds = getSelectedUnitIds();
+          if (unitIds.length > 0) issueCommand({ type: CommandType.SetStance, player: localPlayer, unitIds, stance: payload as UnitStance });
+      } else if (action === 'FORMATION') {
+          setFormation(payload as FormationType);
       } else if (action === 'BUILD') {
           stateRef.current.buildingToPlace = payload;
           setGameState({ ...stateRef.current });
       }
   };
 
+  const handleDownloadReplay = () => {
+      downloadTextFile(`replay-${gameState.seed}.json`, serializeReplay(getReplay()));
+  };
+
+  const handleLoadReplay = async () => {
+      try {
+          onWatchReplay(parseReplay(await pickTextFile()));
+      } catch (err) {
+          alert((err as Error).message);
+      }
+  };
+
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-black text-white">
       <div className="flex-1 relative overflow-hidden">
          {gameState.gameOver && (
-             <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80">
+             <div className="absolute inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/80">
                  <div className="text-6xl font-bold text-white">
-                     {gameState.winner === PlayerType.Human ? 'VICTORY' : 'DEFEAT'}
+                     {gameState.winner === gameState.players[localPlayer].team ? 'VICTORY' : 'DEFEAT'}
+                 </div>
+                 <div className="flex gap-3">
+                     <button onClick={() => onWatchReplay(getReplay())} className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-500">Watch Replay</button>
+                     <button onClick={handleDownloadReplay} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">Download Replay</button>
+                     {!online && <button onClick={() => setMenuOpen(true)} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">Load Game</button>}
+                     <button onClick={onNewMatch} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">New Match</button>
                  </div>
              </div>
          )}
@@ -196,18 +325,77 @@ const App: React.FC = () => {
             onRightClick={handleRightClick}
             onPlaceBuilding={handlePlaceBuilding}
             onAttackMove={handleAttackMove}
+            onPatrol={handlePatrol}
+            onGuard={handleGuard}
+            viewAs={localPlayer}
         />
         {/* Helper Text */}
         <div className="absolute top-4 left-4 bg-black/50 p-2 text-xs rounded pointer-events-none select-none z-10">
             <div>WASD / Mouse Edge: Camera</div>
-            <div>Left Click: Select | Drag: Box Select</div>
-            <div>Right Click: Move / Gather / Attack / Work Farm</div>
+            <div>Left Click: Select | Drag: Box Select | Shift: Add / Remove</div>
+            <div>Double Click: All of a Type | Ctrl Click: All of a Type on Screen</div>
+            <div>Ctrl+0-9: Set Group | 0-9: Select Group (twice to look)</div>
+            <div>. : Idle Peasant | , : All Military</div>
+            <div>R: Attack Move | P: Patrol (Shift Click for more points) | G: Guard / Follow | H: Stop</div>
+            <div>Right Click: Move / Gather / Attack / Work Farm / Drop Off</div>
             <div>Right Click Depleted Farm: Reseed (20 Wood)</div>
+            <div>Minimap: Click to look, Right Click to move</div>
+            <div className="opacity-60">Seed: {gameState.seed}</div>
         </div>
+        <div className="absolute top-52 left-4 flex gap-2 text-xs z-10">
+            <button onClick={handleDownloadReplay} className="bg-black/50 hover:bg-black/70 px-2 py-1 rounded">Download Replay</button>
+            <button onClick={handleLoadReplay} className="bg-black/50 hover:bg-black/70 px-2 py-1 rounded">Load Replay</button>
+            {/* Loading a save online would split this client off from the others */}
+            {!online && <button onClick={() => setMenuOpen(true)} className="bg-black/50 hover:bg-black/70 px-2 py-1 rounded">Save / Load</button>}
+        </div>
+        {(waiting || desyncTick !== null) && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1 text-sm z-20 pointer-events-none">
+                {waiting && <div className="bg-black/70 px-3 py-1 rounded">Waiting for players…</div>}
+                {desyncTick !== null && <div className="bg-red-900/80 px-3 py-1 rounded">Out of sync with the other players since tick {desyncTick}</div>}
+            </div>
+        )}
+        {menuOpen && <SaveLoadMenu onSave={saveGame} onLoad={loadGame} onClose={() => setMenuOpen(false)} />}
       </div>
-      <HUD gameState={gameState} onAction={handleAction} />
+      <HUD gameState={gameState} notice={notice} viewAs={localPlayer} formation={formation} onAction={handleAction}>
+        <Minimap stateRef={stateRef} viewAs={localPlayer} onRightClick={handleMinimapRightClick} />
+      </HUD>
     </div>
   );
 };
 
+// Switches between match setup, the online lobby, a live match (played or
+// watched) and the replay viewer. The match stays mounted, hidden, while a
+// replay is open, so leaving the replay returns to it.
+const App: React.FC = () => {
+  const [setup, setSetup] = useState<MatchSetup | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [net, setNet] = useState<NetClient | null>(null);
+
+  const joinOnline = (settings: OnlineSettings) => {
+      saveOnlineSettings(settings);
+      setNet(createNetClient({ ...settings, createSocket: url => new WebSocket(url) }));
+  };
+
+  const leave = () => {
+      net?.close();
+      setNet(null);
+      setSetup(null);
+  };
+
+  const viewer = replay && <ReplayViewer replay={replay} onExit={() => setReplay(null)} />;
+  if (net && !setup) return <LobbyScreen client={net} onStarted={() => setSetup(net.getStart()!.setup)} onLeave={leave} />;
+  if (!setup) return viewer || <MatchSetupScreen onStart={setSetup} onJoinOnline={joinOnline} />;
+  const spectating = net ? net.spectator : getHumanPlayers(setup).length === 0;
+  return (
+    <>
+      <div className={replay ? 'hidden' : 'contents'}>
+        {spectating
+          ? <LiveSpectator setup={setup} net={net} onWatchReplay={setReplay} onExit={leave} />
+          : <Game setup={setup} net={net} onWatchReplay={setReplay} onNewMatch={leave} hidden={!!replay} />}
+      </div>
+      {viewer}
+    </>
+  );
+};
+
 export default App;
\ No newline at end of file
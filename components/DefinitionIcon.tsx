@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  Users, Sword, Zap, Shield, Crosshair, Home, Tent, Sprout, Axe, Warehouse, Hammer, Pickaxe, Castle, Building, Landmark, Flag, TowerControl, BrickWall, DoorOpen, Box,
+  LucideIcon,
+} from 'lucide-react';
+
+// Icons a unit or building definition can name in its "icon" field. Kept to a
+// short list so the bundle does not carry every Lucide icon.
+const ICONS: Record<string, LucideIcon> = {
+  users: Users,
+  sword: Sword,
+  zap: Zap,
+  shield: Shield,
+  crosshair: Crosshair,
+  home: Home,
+  tent: Tent,
+  sprout: Sprout,
+  axe: Axe,
+  warehouse: Warehouse,
+  hammer: Hammer,
+  pickaxe: Pickaxe,
+  castle: Castle,
+  building: Building,
+  landmark: Landmark,
+  flag: Flag,
+  'tower-control': TowerControl,
+  'brick-wall': BrickWall,
+  'door-open': DoorOpen,
+};
+
+interface DefinitionIconProps {
+  icon: string;
+  size?: number;
+  className?: string;
+}
+
+// Unknown names get a plain box rather than breaking the HUD
+const DefinitionIcon: React.FC<DefinitionIconProps> = ({ icon, size = 20, className }) => {
+  const Icon = ICONS[icon] || Box;
+  return <Icon size={size} className={className} />;
+};
+
+export default DefinitionIcon;
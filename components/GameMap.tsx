@@ -1,23 +1,37 @@
 import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { GameState, EntityType, UnitType, BuildingType, PlayerType, MAP_WIDTH, MAP_HEIGHT, ResourceType, GameEntity, Building, Unit, Projectile } from '../types';
+import { GameState, EntityType, MeshPart, PlayerId, MAP_WIDTH, MAP_HEIGHT, ResourceType, GameEntity, Building, Unit, Projectile, Vector2D } from '../types';
+import { pickEntityAt, queryRadius } from '../engine/spatialIndex';
+import { canSee, FOG_COLS, FOG_ROWS, TileVisibility } from '../engine/visibility';
+import { NEUTRAL_COLOR, CAMERA_FOV } from '../constants';
+import { getUnitDef, getBuildingDef, buildingHasAbility } from '../engine/definitions';
+import { getCarryCapacity } from '../engine/techs';
+import { validatePlacement, snapToBuildGrid, getWallLine } from '../engine/placement';
+import { applyCameraRig } from '../utils/cameraRig';
+import { selectInBox, selectSameKind } from '../engine/selection';
+
+// Armed by a hotkey: the next left click gives the order instead of selecting
+export type CommandMode = 'ATTACK' | 'PATROL' | 'GUARD';
 
 interface GameMapProps {
   gameState: GameState;
   stateRef: React.MutableRefObject<GameState>;
-  commandMode: 'ATTACK' | null;
-  onSelection: (id: string, multi: boolean) => void;
+  commandMode: CommandMode | null;
+  // `add`: Shift was held, so the picked ids join (or leave) the selection
+  onSelection: (ids: string[], add: boolean) => void;
   onRightClick: (coords: { x: number; y: number }, targetId?: string) => void;
-  onPlaceBuilding: (coords: { x: number; y: number }) => void;
+  // Walls are dragged out: `lineTo` is where the drag ended
+  onPlaceBuilding: (coords: { x: number; y: number }, lineTo?: { x: number; y: number }) => void;
   onAttackMove: (coords: { x: number; y: number }, targetId?: string) => void;
+  // `more`: Shift was held, so the route goes on
+  onPatrol: (coords: { x: number; y: number }, more: boolean) => void;
+  onGuard: (targetId?: string) => void;
+  // Box selection picks this player's units, and the map is drawn through their fog of war
+  viewAs: PlayerId;
+  // Replays: selection only, no orders
+  readOnly?: boolean;
 }
 
-const TEAM_COLORS = {
-    [PlayerType.Human]: 0x2563EB, // Blue
-    [PlayerType.AI]: 0xDC2626,    // Red
-    [PlayerType.Neutral]: 0xA8A29E // Grey
-};
-
 // Reusable Geometries & Materials to reduce draw calls / memory
 const GEOMETRIES = {
     box: new THREE.BoxGeometry(1, 1, 1),
@@ -29,20 +43,69 @@ const GEOMETRIES = {
 
 const MATERIALS = {
     selected: new THREE.MeshBasicMaterial({ color: 0x22C55E, transparent: true, opacity: 0.5, side: THREE.DoubleSide }),
+    ghostValid: new THREE.MeshBasicMaterial({ color: 0x22C55E, transparent: true, opacity: 0.5 }),
+    ghostInvalid: new THREE.MeshBasicMaterial({ color: 0xEF4444, transparent: true, opacity: 0.5 }),
     shadow: new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.3 }),
     white: new THREE.MeshLambertMaterial({ color: 0xffffff }),
     wood: new THREE.MeshLambertMaterial({ color: 0x8B4513 }),
     leaf: new THREE.MeshLambertMaterial({ color: 0x15803d }),
-    stone: new THREE.MeshLambertMaterial({ color: 0x57534E }),
-    skin: new THREE.MeshLambertMaterial({ color: 0xE2A478 }),
     gold: new THREE.MeshLambertMaterial({ color: 0xF59E0B }),
-    iron: new THREE.MeshLambertMaterial({ color: 0x9CA3AF }),
-    farmEarth: new THREE.MeshLambertMaterial({ color: 0x3F2C22 }),
-    farmCrop: new THREE.MeshLambertMaterial({ color: 0x166534 }),
     farmDead: new THREE.MeshLambertMaterial({ color: 0xCA8A04 }),
+    rock: new THREE.MeshLambertMaterial({ color: 0xA8A29E }),
+    rally: new THREE.MeshBasicMaterial({ color: 0xFACC15 }),
+};
+
+// What a peasant's load looks like
+const LOAD_MATERIALS = {
+    [ResourceType.Wood]: MATERIALS.wood,
+    [ResourceType.Food]: MATERIALS.farmDead,
+    [ResourceType.Stone]: MATERIALS.rock,
+    [ResourceType.Gold]: MATERIALS.gold,
 };
 
-const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, onRightClick, onPlaceBuilding, onAttackMove }) => {
+// Fixed colors of definition meshes, shared across entities
+const colorMaterials = new Map<string, THREE.Material>();
+const getColorMaterial = (hex: string) => {
+    let material = colorMaterials.get(hex);
+    if (!material) {
+        material = new THREE.MeshLambertMaterial({ color: new THREE.Color(hex) });
+        colorMaterials.set(hex, material);
+    }
+    return material;
+};
+
+interface TeamMaterials {
+    team: THREE.Material;
+    roof: THREE.Material;
+}
+
+// Builds a model from the "mesh" recipe of a unit or building definition
+const addMeshParts = (parent: THREE.Object3D, parts: MeshPart[], teamMaterials: TeamMaterials) => {
+    parts.forEach(part => {
+        const object = part.shape
+            ? new THREE.Mesh(GEOMETRIES[part.shape], part.color === 'team' || part.color === 'roof' ? teamMaterials[part.color] : getColorMaterial(part.color!))
+            : new THREE.Group();
+        if (part.name) object.name = part.name;
+        if (part.scale) object.scale.set(...part.scale);
+        if (part.position) object.position.set(...part.position);
+        if (part.rotation) object.rotation.set(...part.rotation);
+        if (part.shadow) {
+            object.castShadow = true;
+            object.receiveShadow = true;
+        }
+        if (part.parts) addMeshParts(object, part.parts, teamMaterials);
+        parent.add(object);
+    });
+};
+
+// Fog overlay alpha per tile state
+const FOG_ALPHA = {
+    [TileVisibility.Unexplored]: 255,
+    [TileVisibility.Explored]: 150,
+    [TileVisibility.Visible]: 0
+};
+
+const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, onRightClick, onPlaceBuilding, onAttackMove, onPatrol, onGuard, viewAs, readOnly = false }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -50,13 +113,18 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
   const raycasterRef = useRef(new THREE.Raycaster());
   const meshesRef = useRef<Map<string, THREE.Group>>(new Map());
   const groundRef = useRef<THREE.Mesh | null>(null);
+  // The render loop is set up once, so it reads the viewer through a ref
+  const viewAsRef = useRef(viewAs);
+  viewAsRef.current = viewAs;
   
   // Selection Box State
   const [selectionBox, setSelectionBox] = useState<{startX: number, startY: number, width: number, height: number} | null>(null);
   const dragStartRef = useRef<{x: number, y: number} | null>(null);
 
-  // Ghost Building
+  // Ghost Building: one footprint, or one per segment while a wall is dragged
   const ghostMeshRef = useRef<THREE.Group | null>(null);
+  const ghostPositionRef = useRef({ x: 0, y: 0 });
+  const wallStartRef = useRef<Vector2D | null>(null);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -68,7 +136,7 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
     sceneRef.current = scene;
 
     // Camera
-    const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 10, 3000);
+    const camera = new THREE.PerspectiveCamera(CAMERA_FOV, window.innerWidth / window.innerHeight, 10, 3000);
     camera.position.set(0, 600, 600); // High angle
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
@@ -114,23 +182,63 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
     grid.position.set(MAP_WIDTH/2, 1, MAP_HEIGHT/2);
     scene.add(grid);
 
+    // Fog of War Overlay: one texel per fog tile, black with per-tile alpha
+    const fogData = new Uint8Array(FOG_COLS * FOG_ROWS * 4);
+    const fogTexture = new THREE.DataTexture(fogData, FOG_COLS, FOG_ROWS, THREE.RGBAFormat);
+    fogTexture.magFilter = THREE.LinearFilter;
+    fogTexture.minFilter = THREE.LinearFilter;
+    const fogOverlay = new THREE.Mesh(
+        new THREE.PlaneGeometry(MAP_WIDTH, MAP_HEIGHT),
+        new THREE.MeshBasicMaterial({ map: fogTexture, transparent: true, depthWrite: false })
+    );
+    fogOverlay.rotation.x = -Math.PI / 2;
+    fogOverlay.position.set(MAP_WIDTH/2, 2, MAP_HEIGHT/2);
+    fogOverlay.renderOrder = 1;
+    scene.add(fogOverlay);
+
+    const syncFogTexture = (fog: number[]) => {
+        let changed = false;
+        for (let ty = 0; ty < FOG_ROWS; ty++) {
+            // Texture rows run bottom-up (v = 0 is the far edge of the map)
+            const row = (FOG_ROWS - 1 - ty) * FOG_COLS;
+            for (let tx = 0; tx < FOG_COLS; tx++) {
+                const alpha = fog.length > 0 ? FOG_ALPHA[fog[ty * FOG_COLS + tx] as TileVisibility] : 0;
+                const i = (row + tx) * 4 + 3;
+                if (fogData[i] !== alpha) {
+                    fogData[i] = alpha;
+                    changed = true;
+                }
+            }
+        }
+        if (changed) fogTexture.needsUpdate = true;
+    };
+
+    // Rally flag of the selected building
+    const rallyFlag = new THREE.Group();
+    const rallyPole = new THREE.Mesh(GEOMETRIES.cylinder, MATERIALS.wood);
+    rallyPole.scale.set(1, 30, 1);
+    rallyPole.position.y = 15;
+    rallyFlag.add(rallyPole);
+    const rallyCloth = new THREE.Mesh(GEOMETRIES.box, MATERIALS.rally);
+    rallyCloth.scale.set(12, 8, 1);
+    rallyCloth.position.set(6, 26, 0);
+    rallyFlag.add(rallyCloth);
+    rallyFlag.visible = false;
+    scene.add(rallyFlag);
+
     // --- ANIMATION LOOP ---
     const clock = new THREE.Clock();
+    let frameId: number;
 
     const animate = () => {
-        requestAnimationFrame(animate);
+        frameId = requestAnimationFrame(animate);
         const time = performance.now();
         const delta = clock.getDelta();
         const state = stateRef.current;
+        const viewer = viewAsRef.current;
 
         // 1. Sync Camera
-        const camTargetX = state.camera.x + window.innerWidth/2; 
-        const camTargetZ = state.camera.y + window.innerHeight/2; 
-        const camOffsetHeight = 500;
-        const camOffsetZ = 400; 
-
-        camera.position.set(state.camera.x + window.innerWidth/2, camOffsetHeight, state.camera.y + window.innerHeight/2 + camOffsetZ);
-        camera.lookAt(state.camera.x + window.innerWidth/2, 0, state.camera.y + window.innerHeight/2);
+        applyCameraRig(camera, state.camera);
 
         // 2. Sync Entities
         const entities = state.entities;
@@ -149,6 +257,15 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                 meshes.set(entity.id, meshGroup);
             }
 
+            // Entity came back (replay rewind): cancel its death animation
+            if (meshGroup.userData.isDying) {
+                meshGroup.userData.isDying = false;
+                meshGroup.scale.setScalar(1);
+            }
+
+            // Enemies under the fog are not drawn; resources stay once explored
+            meshGroup.visible = canSee(state, viewer, entity);
+
             // Sync Position
             if (!meshGroup.userData.isDying) {
                 meshGroup.position.set(entity.position.x, 0, entity.position.y);
@@ -175,6 +292,9 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                         const angle = Math.atan2(t.position.y - u.position.y, t.position.x - u.position.x);
                         if (model) model.rotation.y = -angle + Math.PI/2;
                     }
+                } else if (u.facing != null && u.state === 'IDLE') {
+                    // In formation: face the way the group was heading
+                    if (model) model.rotation.y = -u.facing + Math.PI/2;
                 }
 
                 // Bobbing Animation
@@ -184,6 +304,14 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                     model.position.y = 0;
                 }
                 
+                // Carried Load
+                const load = meshGroup.getObjectByName('load') as THREE.Mesh | undefined;
+                if (load) {
+                    load.visible = u.carriedResources > 0;
+                    load.material = LOAD_MATERIALS[u.gatherType || ResourceType.Wood];
+                    load.scale.y = 2 + (u.carriedResources / getCarryCapacity(state, u.owner)) * 4;
+                }
+
                 // Arm Animation
                 const arm = meshGroup.getObjectByName('arm');
                 if (arm) {
@@ -205,12 +333,14 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                     if (scaffolding) scaffolding.visible = false;
                     if (completed) completed.visible = true;
                     
-                    if (b.buildingType === BuildingType.Farm) {
+                    if (buildingHasAbility(b.buildingType, 'farm')) {
                         const crops = meshGroup.getObjectByName('crops');
                         if (crops) {
                             const isDepleted = (b.resourceAmount || 0) <= 0;
                             crops.children.forEach((c: any) => {
-                                c.material = isDepleted ? MATERIALS.farmDead : MATERIALS.farmCrop;
+                                // Remember the recipe's color to restore after a reseed
+                                c.userData.material = c.userData.material || c.material;
+                                c.material = isDepleted ? MATERIALS.farmDead : c.userData.material;
                             });
                         }
                     }
@@ -218,6 +348,12 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                     if (scaffolding) scaffolding.visible = true;
                     if (completed) completed.visible = false;
                 }
+
+                // Gates swing open while their owner's units are passing
+                const door = meshGroup.getObjectByName('door');
+                if (door) {
+                    door.visible = queryRadius(state, b.position, b.radius + 20, e => e.entityType === EntityType.Unit && e.owner === b.owner).length === 0;
+                }
             }
         });
 
@@ -250,19 +386,47 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
             }
         });
 
+        syncFogTexture(state.fog[viewer] ?? []); // Spectators watching everything have no fog
+
+        // Rally point of the selected building; one set on a unit follows it
+        const selectedBuilding = state.selectedEntityIds.length === 1 ? entities[state.selectedEntityIds[0]] : undefined;
+        const rally = selectedBuilding && selectedBuilding.entityType === EntityType.Building && selectedBuilding.owner === viewer
+            ? (selectedBuilding as Building).rallyPoint : null;
+        rallyFlag.visible = !!rally;
+        if (rally) {
+            const rallyTarget = rally.targetId ? entities[rally.targetId] : undefined;
+            const at = rallyTarget && rallyTarget.entityType === EntityType.Unit ? rallyTarget.position : rally.position;
+            rallyFlag.position.set(at.x, 0, at.y);
+        }
+
         // 3. Ghost Building
         if (state.buildingToPlace) {
+             const type = state.buildingToPlace;
+             if (ghostMeshRef.current && ghostMeshRef.current.userData.type !== type) {
+                 scene.remove(ghostMeshRef.current);
+                 ghostMeshRef.current = null;
+             }
              if (!ghostMeshRef.current) {
                  const g = new THREE.Group();
-                 const type = state.buildingToPlace;
-                 const size = type === BuildingType.TownCenter ? 40 : type === BuildingType.Barracks ? 30 : 20;
-                 const m = new THREE.Mesh(GEOMETRIES.box, MATERIALS.selected);
-                 m.scale.set(size*2, 20, size*2);
-                 m.position.y = 10;
-                 g.add(m);
+                 g.userData.type = type;
                  scene.add(g);
                  ghostMeshRef.current = g;
              }
+             const g = ghostMeshRef.current;
+             const size = getBuildingDef(type).stats.radius;
+             const spots = wallStartRef.current ? getWallLine(wallStartRef.current, ghostPositionRef.current) : [ghostPositionRef.current];
+             while (g.children.length < spots.length) {
+                 const m = new THREE.Mesh(GEOMETRIES.box, MATERIALS.ghostValid);
+                 m.scale.set(size*2, 20, size*2);
+                 g.add(m);
+             }
+             while (g.children.length > spots.length) g.remove(g.children[g.children.length - 1]);
+             spots.forEach((spot, i) => {
+                 const m = g.children[i] as THREE.Mesh;
+                 m.position.set(spot.x, 10, spot.y);
+                 // Tint by whether the engine would accept a Build order here
+                 m.material = validatePlacement(state, viewer, type, spot) === null ? MATERIALS.ghostValid : MATERIALS.ghostInvalid;
+             });
         } else {
             if (ghostMeshRef.current) {
                 scene.remove(ghostMeshRef.current);
@@ -282,15 +446,30 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
     };
     window.addEventListener('resize', handleResize);
 
+    // The map remounts when switching between a match and a replay; each
+    // mount must stop its loop and give back its WebGL context
     return () => {
+        cancelAnimationFrame(frameId);
         window.removeEventListener('resize', handleResize);
         if (containerRef.current && renderer.domElement) {
              containerRef.current.removeChild(renderer.domElement);
         }
+        fogTexture.dispose();
+        renderer.dispose();
     };
   }, []);
 
   // --- MESH FACTORY ---
+  const getPlayerColor = (owner: PlayerId) => stateRef.current.players[owner]?.color ?? NEUTRAL_COLOR;
+
+  const createTeamMaterials = (owner: PlayerId): TeamMaterials => {
+      const color = getPlayerColor(owner);
+      return {
+          team: new THREE.MeshLambertMaterial({ color }),
+          roof: new THREE.MeshLambertMaterial({ color: new THREE.Color(color).multiplyScalar(0.45) }),
+      };
+  };
+
   const createEntityMesh = (entity: GameEntity): THREE.Group => {
       const group = new THREE.Group();
       
@@ -310,87 +489,13 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
 
       if (entity.entityType === EntityType.Unit) {
           const u = entity as Unit;
-          const color = TEAM_COLORS[u.owner];
-          const matTeam = new THREE.MeshLambertMaterial({ color });
-          
-          if (u.unitType === UnitType.Peasant) {
-              const body = new THREE.Mesh(GEOMETRIES.cylinder, matTeam);
-              body.scale.set(4, 10, 4);
-              body.position.y = 5;
-              body.castShadow = true;
-              model.add(body);
-              const head = new THREE.Mesh(GEOMETRIES.sphere, MATERIALS.skin);
-              head.scale.set(4, 4, 4);
-              head.position.y = 12;
-              model.add(head);
-              const hat = new THREE.Mesh(GEOMETRIES.cone, MATERIALS.wood);
-              hat.scale.set(8, 3, 8);
-              hat.position.y = 15;
-              model.add(hat);
-              const arm = new THREE.Group();
-              arm.name = 'arm';
-              arm.position.set(4, 8, 0);
-              const armMesh = new THREE.Mesh(GEOMETRIES.box, MATERIALS.skin);
-              armMesh.scale.set(2, 6, 2);
-              armMesh.position.y = -3;
-              arm.add(armMesh);
-              const tool = new THREE.Mesh(GEOMETRIES.box, MATERIALS.iron);
-              tool.scale.set(1, 8, 1);
-              tool.position.set(0, -6, 2);
-              tool.rotation.x = Math.PI/2;
-              arm.add(tool);
-              model.add(arm);
-
-          } else if (u.unitType === UnitType.Militia) {
-               const body = new THREE.Mesh(GEOMETRIES.box, MATERIALS.iron); 
-               body.scale.set(6, 12, 6);
-               body.position.y = 6;
-               body.castShadow = true;
-               model.add(body);
-               const head = new THREE.Mesh(GEOMETRIES.sphere, MATERIALS.iron);
-               head.scale.set(4.5, 4.5, 4.5);
-               head.position.y = 14;
-               model.add(head);
-               const shield = new THREE.Mesh(GEOMETRIES.cylinder, matTeam);
-               shield.scale.set(6, 1, 6);
-               shield.rotation.x = Math.PI/2;
-               shield.rotation.z = Math.PI/2;
-               shield.position.set(-5, 8, 2);
-               model.add(shield);
-               const arm = new THREE.Group();
-               arm.name = 'arm';
-               arm.position.set(5, 8, 0);
-               const sword = new THREE.Mesh(GEOMETRIES.box, MATERIALS.white);
-               sword.scale.set(1, 10, 1);
-               sword.position.set(0, 3, 4);
-               sword.rotation.x = Math.PI/2;
-               arm.add(sword);
-               model.add(arm);
-          } else if (u.unitType === UnitType.Archer) {
-              const body = new THREE.Mesh(GEOMETRIES.cylinder, matTeam);
-              body.scale.set(3, 11, 3);
-              body.position.y = 5.5;
-              body.castShadow = true;
-              model.add(body);
-              const head = new THREE.Mesh(GEOMETRIES.sphere, MATERIALS.skin);
-              head.position.y = 12;
-              head.scale.set(3.5, 3.5, 3.5);
-              model.add(head);
-              const arm = new THREE.Group();
-              arm.name = 'arm';
-              arm.position.set(3, 8, 0);
-              const bow = new THREE.Mesh(GEOMETRIES.cone, MATERIALS.wood);
-              bow.scale.set(1, 10, 1);
-              bow.rotation.z = Math.PI/4;
-              arm.add(bow);
-              model.add(arm);
-          }
+          addMeshParts(model, getUnitDef(u.unitType).mesh, createTeamMaterials(u.owner));
+          // Carried load, shown while walking back to a drop-off
+          const load = model.getObjectByName('load');
+          if (load) load.visible = false;
 
       } else if (entity.entityType === EntityType.Building) {
           const b = entity as Building;
-          const color = TEAM_COLORS[b.owner];
-          const matTeam = new THREE.MeshLambertMaterial({ color });
-          const matRoof = new THREE.MeshLambertMaterial({ color: b.owner === PlayerType.AI ? 0x7F1D1D : 0x1E3A8A });
 
           const scaffolding = new THREE.Group();
           scaffolding.name = 'scaffolding';
@@ -402,57 +507,9 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
 
           const completed = new THREE.Group();
           completed.name = 'completed';
+          addMeshParts(completed, getBuildingDef(b.buildingType).mesh, createTeamMaterials(b.owner));
           group.add(completed);
 
-          if (b.buildingType === BuildingType.TownCenter) {
-              const base = new THREE.Mesh(GEOMETRIES.box, matTeam);
-              base.scale.set(60, 40, 60);
-              base.position.y = 20;
-              base.castShadow = true;
-              base.receiveShadow = true;
-              completed.add(base);
-              const roof = new THREE.Mesh(GEOMETRIES.cone, matRoof);
-              roof.scale.set(50, 30, 50);
-              roof.position.y = 55;
-              roof.rotation.y = Math.PI/4;
-              completed.add(roof);
-          } else if (b.buildingType === BuildingType.Barracks) {
-              const base = new THREE.Mesh(GEOMETRIES.box, matTeam);
-              base.scale.set(60, 25, 40);
-              base.position.y = 12.5;
-              base.castShadow = true;
-              completed.add(base);
-              const roof = new THREE.Mesh(GEOMETRIES.cone, matRoof);
-              roof.scale.set(45, 20, 45);
-              roof.position.y = 35;
-              completed.add(roof);
-          } else if (b.buildingType === BuildingType.House) {
-              const base = new THREE.Mesh(GEOMETRIES.box, matTeam);
-              base.scale.set(25, 20, 25);
-              base.position.y = 10;
-              base.castShadow = true;
-              completed.add(base);
-              const roof = new THREE.Mesh(GEOMETRIES.cone, matRoof);
-              roof.scale.set(20, 15, 20);
-              roof.position.y = 27;
-              completed.add(roof);
-          } else if (b.buildingType === BuildingType.Farm) {
-              const patch = new THREE.Mesh(GEOMETRIES.box, MATERIALS.farmEarth);
-              patch.scale.set(50, 2, 50);
-              patch.position.y = 1;
-              patch.receiveShadow = true;
-              completed.add(patch);
-              const crops = new THREE.Group();
-              crops.name = 'crops';
-              for(let i=0; i<3; i++) {
-                  const row = new THREE.Mesh(GEOMETRIES.box, MATERIALS.farmCrop);
-                  row.scale.set(40, 4, 8);
-                  row.position.set(0, 4, -15 + (i*15));
-                  crops.add(row);
-              }
-              completed.add(crops);
-          }
-
       } else if (entity.entityType === EntityType.Resource) {
           const res = entity as any;
           if (res.resourceType === ResourceType.Wood) {
@@ -466,6 +523,24 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
               leaves.position.y = 15;
               leaves.castShadow = true;
               model.add(leaves);
+          } else if (res.resourceType === ResourceType.Stone || res.resourceType === ResourceType.Gold) {
+              // A heap of grey boulders; gold mines have nuggets in the rock
+              [[0, 0, 12, 10], [-9, 6, 8, 7], [8, 7, 7, 6]].forEach(([x, z, size, height]) => {
+                  const boulder = new THREE.Mesh(GEOMETRIES.sphere, MATERIALS.rock);
+                  boulder.scale.set(size, height, size);
+                  boulder.position.set(x, height / 2, z);
+                  boulder.castShadow = true;
+                  model.add(boulder);
+              });
+              if (res.resourceType === ResourceType.Gold) {
+                  [[-4, 9, 4], [5, 7, -5], [-10, 8, 6], [7, 10, 3]].forEach(([x, y, z]) => {
+                      const nugget = new THREE.Mesh(GEOMETRIES.box, MATERIALS.gold);
+                      nugget.scale.set(3, 3, 3);
+                      nugget.position.set(x, y, z);
+                      nugget.rotation.set(0.5, x, 0.3);
+                      model.add(nugget);
+                  });
+              }
           } else {
               const bush = new THREE.Mesh(GEOMETRIES.sphere, MATERIALS.leaf);
               bush.scale.set(10, 8, 10);
@@ -500,6 +575,29 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
       return null;
   };
 
+  // Entities hidden by the fog cannot be clicked
+  const pickVisibleEntityAt = (point: { x: number; y: number }) => {
+      const state = stateRef.current;
+      return pickEntityAt(state, point, 15, ent => canSee(state, viewAs, ent));
+  };
+
+  // Where a ground point appears on screen, in client coordinates
+  const toScreen = (position: Vector2D) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect || !cameraRef.current) return null;
+      const vec = new THREE.Vector3(position.x, 0, position.y).project(cameraRef.current);
+      return {
+          x: rect.left + (vec.x + 1) * rect.width / 2,
+          y: rect.top + (1 - vec.y) * rect.height / 2
+      };
+  };
+
+  const isOnScreen = (ent: GameEntity) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const p = toScreen(ent.position);
+      return !!rect && !!p && p.x >= rect.left && p.x <= rect.right && p.y >= rect.top && p.y <= rect.bottom;
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
       const point = getGroundIntersection(e.clientX, e.clientY);
       if (!point) return;
@@ -511,19 +609,27 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
                onAttackMove({ x: point.x, y: point.z });
                return;
            }
+           if (commandMode === 'PATROL') {
+               onPatrol({ x: point.x, y: point.z }, e.shiftKey);
+               return;
+           }
+           if (commandMode === 'GUARD') {
+               onGuard(pickVisibleEntityAt({ x: point.x, y: point.z })?.id);
+               return;
+           }
            if (stateRef.current.buildingToPlace) {
-               onPlaceBuilding({ x: point.x, y: point.z });
+               const spot = snapToBuildGrid({ x: point.x, y: point.z });
+               // Walls are laid on release, along the dragged line
+               if (buildingHasAbility(stateRef.current.buildingToPlace, 'wall')) wallStartRef.current = spot;
+               else onPlaceBuilding(spot);
                return;
            }
            setSelectionBox({ startX: e.clientX, startY: e.clientY, width: 0, height: 0 });
-      } else if (e.button === 2) { // Right
+      } else if (e.button === 2 && !readOnly) { // Right
            const worldX = point.x;
            const worldZ = point.z;
            
-           const clickedEntity = (Object.values(stateRef.current.entities) as GameEntity[]).find((ent) => {
-               const dist = Math.sqrt(Math.pow(ent.position.x - worldX, 2) + Math.pow(ent.position.y - worldZ, 2));
-               return dist < ent.radius + 15;
-           });
+           const clickedEntity = pickVisibleEntityAt({ x: worldX, y: worldZ });
 
            onRightClick({ x: worldX, y: worldZ }, clickedEntity?.id);
       }
@@ -532,9 +638,9 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
   const handleMouseMove = (e: React.MouseEvent) => {
       const point = getGroundIntersection(e.clientX, e.clientY);
       
-      // Update Ghost Position
-      if (ghostMeshRef.current && point) {
-          ghostMeshRef.current.position.set(point.x, 0, point.z);
+      // Update Ghost Position (snapped to the build grid)
+      if (point) {
+          ghostPositionRef.current = snapToBuildGrid({ x: point.x, y: point.z });
       }
 
       // Update Selection Box
@@ -546,42 +652,34 @@ const GameMap: React.FC<GameMapProps> = ({ stateRef, commandMode, onSelection, o
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
+      if (e.button === 0 && wallStartRef.current) {
+          const start = wallStartRef.current;
+          wallStartRef.current = null;
+          if (stateRef.current.buildingToPlace) onPlaceBuilding(start, ghostPositionRef.current);
+      }
       if (e.button === 0 && selectionBox && dragStartRef.current) {
+          const state = stateRef.current;
           // If box is small, treat as single click
           if (Math.abs(selectionBox.width) < 5 && Math.abs(selectionBox.height) < 5) {
               const point = getGroundIntersection(e.clientX, e.clientY);
               if (point) {
-                   const clickedEntity = (Object.values(stateRef.current.entities) as GameEntity[]).find((ent) => {
-                       const dist = Math.sqrt(Math.pow(ent.position.x - point.x, 2) + Math.pow(ent.position.y - point.z, 2));
-                       return dist < ent.radius + 15;
-                   });
-                   onSelection(clickedEntity?.id || '', false);
+                   const clickedEntity = pickVisibleEntityAt({ x: point.x, y: point.z });
+                   let ids: string[] = [];
+                   if (clickedEntity && e.detail >= 2) ids = selectSameKind(state, viewAs, clickedEntity);
+                   else if (clickedEntity && (e.ctrlKey || e.metaKey)) ids = selectSameKind(state, viewAs, clickedEntity, isOnScreen);
+                   else if (clickedEntity) ids = [clickedEntity.id];
+                   onSelection(ids, e.shiftKey);
               }
           } else {
-              const ids: string[] = [];
               const startX = Math.min(dragStartRef.current.x, e.clientX);
               const endX = Math.max(dragStartRef.current.x, e.clientX);
               const startY = Math.min(dragStartRef.current.y, e.clientY);
               const endY = Math.max(dragStartRef.current.y, e.clientY);
 
-              (Object.values(stateRef.current.entities) as GameEntity[]).forEach((ent) => {
-                  if (ent.owner === PlayerType.Human && ent.entityType === EntityType.Unit) {
-                      // Project to screen
-                      const vec = new THREE.Vector3(ent.position.x, 0, ent.position.y);
-                      if (cameraRef.current) {
-                          vec.project(cameraRef.current);
-                          const screenX = (vec.x + 1) * window.innerWidth / 2;
-                          const screenY = -(vec.y - 1) * window.innerHeight / 2;
-                          
-                          if (screenX >= startX && screenX <= endX && screenY >= startY && screenY <= endY) {
-                              ids.push(ent.id);
-                          }
-                      }
-                  }
-              });
-              
-              if (ids.length > 0) onSelection(ids.join(','), true);
-              else onSelection('', false);
+              onSelection(selectInBox(state, viewAs, ent => {
+                  const p = toScreen(ent.position);
+                  return !!p && p.x >= startX && p.x <= endX && p.y >= startY && p.y <= endY;
+              }), e.shiftKey);
           }
       }
 
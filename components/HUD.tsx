@@ -1,90 +1,229 @@
 import React from 'react';
-import { GameState, PlayerType, EntityType, BuildingType, UnitType, Building } from '../types';
-import { UNIT_COSTS, BUILDING_COSTS } from '../constants';
-import { Trees, Wheat, Users, Home, Tent, Sprout, Sword, Zap } from 'lucide-react';
+import { GameState, PlayerId, EntityType, TechType, Building, Unit, UnitTypeId, BuildingTypeId, DamageType, GameEntity, FormationType, UnitStance } from '../types';
+import { TECHS, MAX_PRODUCTION_QUEUE, STANCES } from '../constants';
+import { getResearchBlocker, getProductionTime } from '../engine/techs';
+import { isProductionPaused } from '../engine/production';
+import { canAfford } from '../engine/resources';
+import { getDamageType, getArmor, getArmorClasses } from '../engine/combat';
+import { getUnitDef, getBuildingDef, unitHasAbility, buildingHasAbility, getTrainableUnits, getBuildableBuildings } from '../engine/definitions';
+import { Users, FlaskConical, Lock, Check } from 'lucide-react';
+import ResourceList, { RESOURCE_TEXT } from './ResourceList';
+import DefinitionIcon from './DefinitionIcon';
 
 interface HUDProps {
   gameState: GameState;
+  notice?: string | null;
+  // Whose resources and commands are shown
+  viewAs: PlayerId;
+  // Formation of group orders, picked here while several units are selected
+  formation: FormationType;
   onAction: (action: string, payload?: any) => void;
+  // Minimap panel, docked at the right edge
+  children?: React.ReactNode;
 }
 
-const HUD: React.FC<HUDProps> = ({ gameState, onAction }) => {
-  const player = gameState.players[PlayerType.Human];
+// Tooltip lines such as "+12 vs cavalry"
+const describeBonuses = (type: UnitTypeId) => {
+  const lines = Object.entries(getUnitDef(type).bonuses).map(([armorClass, bonus]) => `${bonus > 0 ? '+' : ''}${bonus} vs ${armorClass}`);
+  return lines.length > 0 ? lines.join('\n') : 'No attack bonuses';
+};
+
+const describeArmor = (entity: GameEntity) => {
+  const classes = getArmorClasses(entity);
+  return `Melee / pierce armor${classes.length > 0 ? `\nArmor classes: ${classes.join(', ')}` : ''}`;
+};
+
+const describeUnit = (type: UnitTypeId) => {
+  const { stats } = getUnitDef(type);
+  return `${stats.hp} HP, ${stats.attackDamage} ${getDamageType(type).toLowerCase()} attack, ${stats.meleeArmor} / ${stats.pierceArmor} armor\n${describeBonuses(type)}`;
+};
+
+// Extra tooltip lines for buildings that fight or are placed in a special way
+const describeBuilding = (type: BuildingTypeId) => {
+  const { abilities, stats } = getBuildingDef(type);
+  if (abilities.includes('attack')) return `\nShoots enemies within ${stats.attackRange}: ${stats.attackDamage} pierce attack`;
+  if (abilities.includes('wall')) return '\nDrag to lay a line of segments';
+  if (abilities.includes('gate')) return '\nLets your units through and keeps enemies out';
+  return '';
+};
+
+const FORMATIONS: { type: FormationType; name: string; description: string }[] = [
+  { type: FormationType.Line, name: 'Line', description: 'Wide and shallow, ranged units in the rows behind' },
+  { type: FormationType.Box, name: 'Box', description: 'As deep as it is wide' },
+  { type: FormationType.Staggered, name: 'Staggered', description: 'Loose rows, each one shifted to cover the gaps in front' }
+];
+
+const HUD: React.FC<HUDProps> = ({ gameState, notice, viewAs, formation, onAction, children }) => {
+  const player = gameState.players[viewAs];
   const selectedIds = gameState.selectedEntityIds;
   
   const firstSelected = selectedIds.length > 0 ? gameState.entities[selectedIds[0]] : null;
 
+  // Researched techs stay on the bar, checked; locked ones explain why in the tooltip
+  const renderTechButton = (b: Building, tech: TechType) => {
+    const def = TECHS[tech];
+    const done = player.techs.includes(tech);
+    const blocker = done ? null : getResearchBlocker(gameState, viewAs, b, tech);
+    const affordable = canAfford(player.resources, def.cost) && b.productionQueue.length < MAX_PRODUCTION_QUEUE;
+    const enabled = !blocker && !done && affordable;
+    const requires = def.requires.length > 0 ? `\nRequires ${def.requires.map(t => TECHS[t].name).join(', ')}` : '';
+    return (
+        <button
+            key={tech}
+            disabled={!enabled}
+            onClick={() => onAction('RESEARCH', tech)}
+            title={`${def.name}: ${def.description}\n${def.cost.time}s${requires}${blocker ? `\n${blocker}` : ''}`}
+            className={`flex flex-col items-center p-2 rounded border ${enabled ? 'bg-purple-700 hover:bg-purple-600 border-purple-500' : done ? 'bg-gray-800 border-purple-800' : 'bg-gray-700 border-gray-600 opacity-50'}`}
+        >
+            {done ? <Check size={20} /> : blocker && def.requires.some(t => !player.techs.includes(t)) ? <Lock size={20} /> : <FlaskConical size={20} />}
+            <span className="text-xs mt-1">{def.name}</span>
+            <div className="text-[10px] flex gap-1">
+                {done ? <span className="text-purple-300">Researched</span> : (
+                    <ResourceList amounts={def.cost} cost />
+                )}
+            </div>
+        </button>
+    );
+  };
+
+  // Queued units and techs, front first with its progress; clicking one cancels it for a full refund
+  const renderQueue = (b: Building) => {
+    if (b.productionQueue.length === 0) return null;
+    const front = b.productionQueue[0];
+    const progress = 1 - front.timeLeft / getProductionTime(front);
+    return (
+        <div className="flex flex-col gap-1 ml-2">
+            <div className="flex gap-1">
+                {b.productionQueue.map((item, i) => {
+                    const name = item.tech ? TECHS[item.tech].name : getUnitDef(item.unitType!).name;
+                    return (
+                        <button
+                            key={i}
+                            onClick={() => onAction('CANCEL', i)}
+                            title={`${name}\nClick to cancel and refund`}
+                            className={`relative w-9 h-9 flex items-center justify-center rounded border bg-gray-800 hover:bg-red-900 ${i === 0 ? 'border-blue-400' : 'border-gray-600 opacity-70'}`}
+                        >
+                            {item.tech ? <FlaskConical size={16} /> : <DefinitionIcon icon={getUnitDef(item.unitType!).icon} size={16} />}
+                            {i === 0 && (
+                                <div className="absolute bottom-0 left-0 h-1 bg-blue-400 rounded" style={{ width: `${Math.round(progress * 100)}%` }} />
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+            {isProductionPaused(gameState, b) && (
+                <div className="text-xs text-red-400 font-bold">Population cap reached, build more houses</div>
+            )}
+        </div>
+    );
+  };
+
+  const selectedUnits = selectedIds
+    .map(id => gameState.entities[id])
+    .filter(e => e && e.entityType === EntityType.Unit && e.owner === viewAs) as Unit[];
+
+  // The buttons of the stances every selected unit shares are lit
+  const renderStances = () => {
+    if (selectedUnits.length === 0) return null;
+    return (
+        <div className="flex flex-col gap-1 text-xs">
+            <span className="text-gray-400">Stance</span>
+            <div className="flex gap-1">
+                {(Object.keys(STANCES) as UnitStance[]).map(stance => (
+                    <button
+                        key={stance}
+                        onClick={() => onAction('STANCE', stance)}
+                        title={STANCES[stance].description}
+                        className={`px-2 py-1 rounded border ${selectedUnits.every(u => u.stance === stance) ? 'bg-blue-700 border-blue-400' : 'bg-gray-700 hover:bg-gray-600 border-gray-600'}`}
+                    >
+                        {STANCES[stance].name}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+  };
+
+  // Shown while more than one of our units is selected
+  const renderFormations = () => {
+    if (selectedUnits.length < 2) return null;
+    return (
+        <div className="flex flex-col gap-1 text-xs">
+            <span className="text-gray-400">Formation</span>
+            <div className="flex gap-1">
+                {FORMATIONS.map(f => (
+                    <button
+                        key={f.type}
+                        onClick={() => onAction('FORMATION', f.type)}
+                        title={f.description}
+                        className={`px-2 py-1 rounded border ${f.type === formation ? 'bg-blue-700 border-blue-400' : 'bg-gray-700 hover:bg-gray-600 border-gray-600'}`}
+                    >
+                        {f.name}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+  };
+
   const renderActionButtons = () => {
-    if (!firstSelected || firstSelected.owner !== PlayerType.Human) return <div className="text-gray-400 text-sm">Select a unit or building</div>;
+    if (!firstSelected || firstSelected.owner !== viewAs) return <div className="text-gray-400 text-sm">Select a unit or building</div>;
 
     if (firstSelected.entityType === EntityType.Building) {
         const b = firstSelected as Building;
         if (!b.isBuilt) return <div className="text-yellow-500">Under Construction ({Math.floor(b.constructionProgress)}%)</div>;
 
-        if (b.buildingType === BuildingType.TownCenter) {
-            const cost = UNIT_COSTS[UnitType.Peasant];
-            const canAfford = player.resources.wood >= cost.wood && player.resources.food >= cost.food;
-            return (
-                <button 
-                    disabled={!canAfford}
-                    onClick={() => onAction('TRAIN', UnitType.Peasant)}
-                    className={`flex flex-col items-center p-2 rounded border ${canAfford ? 'bg-blue-600 hover:bg-blue-500 border-blue-400' : 'bg-gray-700 border-gray-600 opacity-50'}`}
-                >
-                    <Users size={20} />
-                    <span className="text-xs mt-1">Peasant</span>
-                    <div className="text-[10px] flex gap-1">
-                        <span className="text-green-300">{cost.food}F</span>
-                    </div>
-                </button>
-            );
-        }
-        if (b.buildingType === BuildingType.Barracks) {
+        const trainable = getTrainableUnits(b.buildingType);
+        const queueFull = b.productionQueue.length >= MAX_PRODUCTION_QUEUE;
+        const techs = (Object.keys(TECHS) as TechType[]).filter(t => TECHS[t].building === b.buildingType);
+        if (trainable.length > 0 || techs.length > 0) {
             return (
                 <div className="flex gap-2">
-                    {[UnitType.Militia, UnitType.Archer].map(uType => {
-                        const cost = UNIT_COSTS[uType];
-                        const canAfford = player.resources.wood >= cost.wood && player.resources.food >= cost.food;
+                    {trainable.map(uType => {
+                        const def = getUnitDef(uType);
+                        const affordable = canAfford(player.resources, def.cost) && !queueFull;
+                        // Workers blue, soldiers red
+                        const colors = def.abilities.includes('gather') ? 'bg-blue-600 hover:bg-blue-500 border-blue-400' : 'bg-red-600 hover:bg-red-500 border-red-400';
                         return (
                             <button 
                                 key={uType}
-                                disabled={!canAfford}
+                                disabled={!affordable}
                                 onClick={() => onAction('TRAIN', uType)}
-                                className={`flex flex-col items-center p-2 rounded border ${canAfford ? 'bg-red-600 hover:bg-red-500 border-red-400' : 'bg-gray-700 border-gray-600 opacity-50'}`}
+                                title={`${def.name}: ${def.cost.time}s\n${describeUnit(uType)}`}
+                                className={`flex flex-col items-center p-2 rounded border ${affordable ? colors : 'bg-gray-700 border-gray-600 opacity-50'}`}
                             >
-                                {uType === UnitType.Militia && <Sword size={20} />}
-                                {uType === UnitType.Archer && <Zap size={20} />}
-                                <span className="text-xs mt-1 capitalize">{uType.toLowerCase()}</span>
+                                <DefinitionIcon icon={def.icon} />
+                                <span className="text-xs mt-1">{def.name}</span>
                                 <div className="text-[10px] flex gap-1">
-                                    <span className="text-amber-600">{cost.wood}W</span>
-                                    <span className="text-green-300">{cost.food}F</span>
+                                    <ResourceList amounts={def.cost} cost />
                                 </div>
                             </button>
                         );
                     })}
+                    {techs.map(tech => renderTechButton(b, tech))}
+                    {renderQueue(b)}
                 </div>
             );
         }
-    } else if (firstSelected.entityType === EntityType.Unit && (firstSelected as any).unitType === UnitType.Peasant) {
+    } else if (firstSelected.entityType === EntityType.Unit && unitHasAbility((firstSelected as Unit).unitType, 'build')) {
         return (
-             <div className="flex gap-2">
-                 {[BuildingType.House, BuildingType.Barracks, BuildingType.Farm].map(bType => {
-                      const cost = BUILDING_COSTS[bType];
-                      const canAfford = player.resources.wood >= cost.wood && player.resources.food >= cost.food;
-                      let Icon = Home;
-                      if (bType === BuildingType.Barracks) Icon = Tent;
-                      if (bType === BuildingType.Farm) Icon = Sprout;
+             <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                 {getBuildableBuildings((firstSelected as Unit).unitType).map(bType => {
+                      const def = getBuildingDef(bType);
+                      const affordable = canAfford(player.resources, def.cost);
 
                       return (
                         <button 
                             key={bType}
-                            disabled={!canAfford}
+                            disabled={!affordable}
                             onClick={() => onAction('BUILD', bType)}
-                            className={`flex flex-col items-center p-2 rounded border ${canAfford ? 'bg-green-700 hover:bg-green-600 border-green-500' : 'bg-gray-700 border-gray-600 opacity-50'}`}
+                            title={`${def.name}: ${def.cost.time}s${describeBuilding(bType)}`}
+                            className={`flex flex-col items-center p-1 rounded border ${affordable ? 'bg-green-700 hover:bg-green-600 border-green-500' : 'bg-gray-700 border-gray-600 opacity-50'}`}
                         >
-                            <Icon size={20} />
-                            <span className="text-xs mt-1 capitalize">{bType.toLowerCase().replace('_', ' ')}</span>
+                            <DefinitionIcon icon={def.icon} />
+                            <span className="text-xs mt-1">{def.name}</span>
                             <div className="text-[10px] flex gap-1">
-                                <span className="text-amber-600">{cost.wood}W</span>
+                                <ResourceList amounts={def.cost} cost />
                             </div>
                         </button>
                       );
@@ -102,11 +241,42 @@ const HUD: React.FC<HUDProps> = ({ gameState, onAction }) => {
          {firstSelected ? (
              <>
                 <div className="font-bold text-lg capitalize">
-                    { (firstSelected as any).unitType?.toLowerCase() || (firstSelected as any).buildingType?.toLowerCase().replace('_', ' ') }
+                    {firstSelected.entityType === EntityType.Unit ? getUnitDef((firstSelected as Unit).unitType).name
+                        : firstSelected.entityType === EntityType.Building ? getBuildingDef((firstSelected as Building).buildingType).name
+                        : (firstSelected as any).resourceType?.toLowerCase()}
                 </div>
                 <div className="text-sm text-gray-300">HP: {Math.floor(firstSelected.hp)} / {firstSelected.maxHp}</div>
+
+                {firstSelected.entityType === EntityType.Unit && (
+                     <div className="text-xs text-gray-300 cursor-help" title={describeBonuses((firstSelected as Unit).unitType)}>
+                         Attack: {(firstSelected as Unit).attackDamage} {getDamageType((firstSelected as Unit).unitType).toLowerCase()}
+                     </div>
+                )}
+                {firstSelected.entityType === EntityType.Building && buildingHasAbility((firstSelected as Building).buildingType, 'attack') && (
+                     <div className="text-xs text-gray-300">
+                         Attack: {getBuildingDef((firstSelected as Building).buildingType).stats.attackDamage} pierce
+                     </div>
+                )}
+                {(firstSelected.entityType === EntityType.Unit || firstSelected.entityType === EntityType.Building) && (
+                     <div className="text-xs text-gray-300 cursor-help" title={describeArmor(firstSelected)}>
+                         Armor: {getArmor(firstSelected, DamageType.Melee)} / {getArmor(firstSelected, DamageType.Pierce)}
+                     </div>
+                )}
+
+                {firstSelected.entityType === EntityType.Unit && firstSelected.owner === viewAs && (
+                     <div className="text-xs text-gray-300">
+                         Stance: {STANCES[(firstSelected as Unit).stance].name}
+                         {(firstSelected as Unit).patrolRoute ? ', patrolling' : (firstSelected as Unit).guardId ? ', guarding' : ''}
+                     </div>
+                )}
+
+                {firstSelected.entityType === EntityType.Unit && (firstSelected as Unit).carriedResources > 0 && (
+                     <div className={`text-xs ${RESOURCE_TEXT[(firstSelected as Unit).gatherType!]}`}>
+                         Carrying: {Math.floor((firstSelected as Unit).carriedResources)} {(firstSelected as Unit).gatherType?.toLowerCase()}
+                     </div>
+                )}
                 
-                {firstSelected.entityType === EntityType.Building && (firstSelected as Building).buildingType === BuildingType.Farm && (
+                {firstSelected.entityType === EntityType.Building && buildingHasAbility((firstSelected as Building).buildingType, 'farm') && (
                      <div className={`text-xs ${(firstSelected as Building).resourceAmount! <= 0 ? 'text-red-500' : 'text-green-300'}`}>
                          Food Left: {Math.floor((firstSelected as Building).resourceAmount || 0)}
                          {(firstSelected as Building).resourceAmount! <= 0 && " (DEPLETED)"}
@@ -114,8 +284,11 @@ const HUD: React.FC<HUDProps> = ({ gameState, onAction }) => {
                 )}
 
                 {firstSelected.entityType === EntityType.Building && (firstSelected as Building).productionQueue.length > 0 && (
-                     <div className="text-xs text-blue-300 animate-pulse">
-                         Training... {(firstSelected as Building).productionQueue.length} queued
+                     <div className={`text-xs ${isProductionPaused(gameState, firstSelected as Building) ? 'text-red-400' : 'text-blue-300 animate-pulse'}`}>
+                         {isProductionPaused(gameState, firstSelected as Building) ? 'Paused, no room'
+                             : (firstSelected as Building).productionQueue[0].tech
+                             ? `Researching ${TECHS[(firstSelected as Building).productionQueue[0].tech!].name}...`
+                             : 'Training...'} {(firstSelected as Building).productionQueue.length} / {MAX_PRODUCTION_QUEUE} queued
                      </div>
                 )}
              </>
@@ -127,22 +300,31 @@ const HUD: React.FC<HUDProps> = ({ gameState, onAction }) => {
       {/* Action Grid */}
       <div className="flex-1 p-4 flex items-center justify-start gap-4">
           {renderActionButtons()}
+          {renderStances()}
+          {renderFormations()}
+          {notice && (
+              <div className="ml-auto text-red-400 font-bold">
+                  {notice}
+              </div>
+          )}
           {gameState.buildingToPlace && (
               <div className="ml-auto text-yellow-400 animate-pulse font-bold">
-                  Placing {gameState.buildingToPlace}... (Right Click Cancel)
+                  Placing {getBuildingDef(gameState.buildingToPlace).name}...
+                  {buildingHasAbility(gameState.buildingToPlace, 'wall') && ' (Drag to draw a line)'} (Right Click Cancel)
               </div>
           )}
       </div>
 
+      {children && (
+          <div className="border-l border-gray-700 p-2 bg-gray-800 flex items-center">
+              {children}
+          </div>
+      )}
+
       {/* Resources Overlay */}
       <div className="absolute -top-10 right-4 flex gap-4 bg-gray-900/90 p-2 rounded-lg border border-gray-600 shadow-xl backdrop-blur-sm">
-        <div className="flex items-center gap-2 text-amber-500 font-bold">
-            <Trees size={18} />
-            <span>{Math.floor(player.resources.wood)}</span>
-        </div>
-        <div className="flex items-center gap-2 text-green-500 font-bold">
-            <Wheat size={18} />
-            <span>{Math.floor(player.resources.food)}</span>
+        <div className="flex gap-4 font-bold">
+            <ResourceList amounts={player.resources} />
         </div>
         <div className="flex items-center gap-2 text-blue-300 font-bold border-l border-gray-600 pl-4">
             <Users size={18} />
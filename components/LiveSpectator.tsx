@@ -0,0 +1,90 @@
+import React from 'react';
+import GameMap from './GameMap';
+import SpectatorHUD from './SpectatorHUD';
+import SpectatorControls from './SpectatorControls';
+import Minimap from './Minimap';
+import { useGameEngine } from '../hooks/useGameEngine';
+import { useSpectator } from '../hooks/useSpectator';
+import { MatchSetup } from '../types';
+import { Replay, serializeReplay } from '../engine/replay';
+import { combineSelection } from '../engine/selection';
+import { NetClient } from '../net/client';
+import { downloadTextFile } from '../utils/files';
+
+interface LiveSpectatorProps {
+  setup: MatchSetup;
+  // Set when watching an online match from its room
+  net: NetClient | null;
+  onWatchReplay: (replay: Replay) => void;
+  onExit: () => void;
+}
+
+const noop = () => {};
+
+// Watches a running match without taking part: an all-AI match started
+// locally, or an online match joined as a spectator.
+const LiveSpectator: React.FC<LiveSpectatorProps> = ({ setup, net, onWatchReplay, onExit }) => {
+  const { gameState, stateRef, getReplay, waiting, desyncTick } = useGameEngine(setup, net);
+  const { follow, setFollow, viewAs } = useSpectator(stateRef, () => getReplay().commands);
+
+  const handleSelection = (ids: string[], add: boolean) => {
+      const state = stateRef.current;
+      state.selectedEntityIds = add ? combineSelection(state, viewAs, state.selectedEntityIds, ids) : ids;
+  };
+
+  const handleDownloadReplay = () => {
+      downloadTextFile(`replay-${gameState.seed}.json`, serializeReplay(getReplay()));
+  };
+
+  return (
+    <div className="flex flex-col h-screen w-screen overflow-hidden bg-black text-white">
+      <div className="flex-1 relative overflow-hidden">
+         {gameState.gameOver && gameState.winner !== null && (
+             <div className="absolute inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/80">
+                 <div className="text-6xl font-bold text-white">Team {gameState.winner + 1} wins</div>
+                 <div className="flex gap-3">
+                     <button onClick={() => onWatchReplay(getReplay())} className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-500">Watch Replay</button>
+                     <button onClick={handleDownloadReplay} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">Download Replay</button>
+                     <button onClick={onExit} className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600">New Match</button>
+                 </div>
+             </div>
+         )}
+         <GameMap
+            stateRef={stateRef}
+            gameState={gameState}
+            commandMode={null}
+            viewAs={viewAs}
+            readOnly
+            onSelection={handleSelection}
+            onRightClick={noop}
+            onPlaceBuilding={noop}
+            onAttackMove={noop}
+            onPatrol={noop}
+            onGuard={noop}
+         />
+         <div className="absolute top-4 left-4 flex flex-col gap-2 text-xs z-10">
+             <div className="bg-black/50 p-2 rounded pointer-events-none select-none">
+                 <div>Spectating{net ? ' online' : ''}</div>
+                 <div className="opacity-60">Seed: {gameState.seed}</div>
+             </div>
+             <div className="flex gap-2">
+                 <button onClick={handleDownloadReplay} className="bg-black/50 hover:bg-black/70 px-2 py-1 rounded">Download Replay</button>
+                 <button onClick={onExit} className="bg-black/50 hover:bg-black/70 px-2 py-1 rounded">Leave</button>
+             </div>
+         </div>
+         <SpectatorControls gameState={gameState} follow={follow} onFollowChange={setFollow} />
+         {(waiting || desyncTick !== null) && (
+             <div className="absolute top-16 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1 text-sm z-20 pointer-events-none">
+                 {waiting && <div className="bg-black/70 px-3 py-1 rounded">Waiting for players…</div>}
+                 {desyncTick !== null && <div className="bg-red-900/80 px-3 py-1 rounded">Players out of sync since tick {desyncTick}</div>}
+             </div>
+         )}
+      </div>
+      <SpectatorHUD gameState={gameState}>
+        <Minimap stateRef={stateRef} viewAs={viewAs} />
+      </SpectatorHUD>
+    </div>
+  );
+};
+
+export default LiveSpectator;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Play, LogOut, Crown, Eye } from 'lucide-react';
+import { PlayerSlot, ControllerType } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import { validateMatchSetup } from '../engine/players';
+import { createSeed } from '../engine/rng';
+import { NetClient } from '../net/client';
+import SlotEditor from './SlotEditor';
+
+interface LobbyScreenProps {
+  client: NetClient;
+  onStarted: () => void;
+  onLeave: () => void;
+}
+
+// Two humans on opposite teams; the host adds slots as people join
+const INITIAL_SLOTS: PlayerSlot[] = [0, 1].map(i => ({ controller: ControllerType.Human, color: PLAYER_COLORS[i], team: i }));
+
+// Room on the relay before the match. Everyone sees who joined and the setup;
+// only the host edits it and starts. Players take the human slots in join
+// order; spectators only watch.
+const LobbyScreen: React.FC<LobbyScreenProps> = ({ client, onStarted, onLeave }) => {
+  const [lobby, setLobby] = useState(client.getLobby());
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isHost = lobby?.hostId === client.clientId;
+  const slots = lobby?.setup?.slots ?? INITIAL_SLOTS;
+  const members = lobby?.members ?? [];
+  const invalid = validateMatchSetup({ slots }, members.filter(m => !m.spectator).length);
+
+  useEffect(() => {
+    if (client.getStart()) onStarted();
+    return client.subscribe(event => {
+      if (event.type === 'lobby') setLobby(event);
+      if (event.type === 'connection') setConnected(event.connected);
+      if (event.type === 'error') setError(event.reason);
+      if (event.type === 'start' || event.type === 'resume') onStarted();
+    });
+  }, [client]);
+
+  // Publish the initial setup once this client becomes host
+  useEffect(() => {
+    if (isHost && !lobby?.setup) client.configure({ slots });
+  }, [isHost]);
+
+  return (
+    <div className="h-screen w-screen flex items-center justify-center bg-black text-white">
+      <div className="w-[40rem] bg-gray-900 border border-gray-600 rounded-lg p-4 shadow-xl">
+          <div className="flex items-center mb-3">
+              <div className="font-bold text-lg">Online Lobby</div>
+              <div className={`ml-3 text-xs ${connected ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {connected ? 'Connected' : 'Connecting…'}
+              </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-3 text-sm">
+              {members.map(m => (
+                  <div key={m.clientId} className={`flex items-center gap-1 px-2 py-1 rounded bg-gray-800 ${m.connected ? '' : 'opacity-50'}`}>
+                      {m.clientId === lobby?.hostId && <Crown size={12} className="text-yellow-400" />}
+                      {m.name}{m.clientId === client.clientId && ' (you)'}
+                      {m.spectator && <Eye size={12} className="text-gray-400" />}
+                  </div>
+              ))}
+          </div>
+
+          <SlotEditor slots={slots} onChange={next => client.configure({ slots: next })} readOnly={!isHost} />
+
+          <div className="flex items-center gap-2 mt-3">
+              <button onClick={onLeave} className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600">
+                  <LogOut size={14} /> Leave
+              </button>
+              {(error || invalid) && <div className="text-xs text-red-400">{error || invalid}</div>}
+              {isHost ? (
+                  <button
+                      disabled={!!invalid}
+                      onClick={() => { setError(null); client.startMatch(createSeed()); }}
+                      className={`ml-auto flex items-center gap-1 px-4 py-2 rounded ${invalid ? 'bg-gray-700 opacity-50' : 'bg-blue-600 hover:bg-blue-500'}`}
+                  >
+                      <Play size={16} /> Start
+                  </button>
+              ) : (
+                  <div className="ml-auto text-xs text-gray-400">Waiting for the host to start…</div>
+              )}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default LobbyScreen;
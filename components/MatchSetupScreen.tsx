@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Play, Globe, Eye } from 'lucide-react';
+import { MatchSetup, PlayerSlot } from '../types';
+import { MATCH_PRESETS, DEFAULT_MATCH_SETUP, validateMatchSetup, getHumanPlayers } from '../engine/players';
+import { OnlineSettings, loadOnlineSettings } from '../utils/onlineSession';
+import SlotEditor from './SlotEditor';
+
+interface MatchSetupScreenProps {
+  onStart: (setup: MatchSetup) => void;
+  onJoinOnline: (settings: OnlineSettings) => void;
+}
+
+// Pre-match screen: pick a preset or edit the slots by hand, or join a room
+// on a relay to play online. A setup without a human slot is watched as a
+// spectator.
+const MatchSetupScreen: React.FC<MatchSetupScreenProps> = ({ onStart, onJoinOnline }) => {
+  const [slots, setSlots] = useState<PlayerSlot[]>(DEFAULT_MATCH_SETUP.slots);
+  const [online, setOnline] = useState<OnlineSettings>(loadOnlineSettings);
+  const watching = getHumanPlayers({ slots }).length === 0;
+  const error = validateMatchSetup({ slots }, watching ? 0 : 1);
+
+  return (
+    <div className="h-screen w-screen flex flex-col gap-4 items-center justify-center bg-black text-white">
+      <div className="w-[40rem] bg-gray-900 border border-gray-600 rounded-lg p-4 shadow-xl">
+          <div className="font-bold text-lg mb-3">New Match</div>
+
+          <div className="flex gap-2 mb-3">
+              {Object.entries(MATCH_PRESETS).map(([name, preset]) => (
+                  <button
+                      key={name}
+                      onClick={() => setSlots(preset.slots)}
+                      className="px-2 py-1 rounded border border-gray-600 bg-gray-700 hover:bg-gray-600 text-xs"
+                  >
+                      {name}
+                  </button>
+              ))}
+          </div>
+
+          <SlotEditor slots={slots} onChange={setSlots} />
+
+          <div className="flex items-center gap-2 mt-3">
+              {error && <div className="text-xs text-red-400">{error}</div>}
+              <button
+                  disabled={!!error}
+                  onClick={() => onStart({ slots })}
+                  className={`ml-auto flex items-center gap-1 px-4 py-2 rounded ${error ? 'bg-gray-700 opacity-50' : 'bg-blue-600 hover:bg-blue-500'}`}
+              >
+                  {watching ? <><Eye size={16} /> Watch</> : <><Play size={16} /> Start</>}
+              </button>
+          </div>
+      </div>
+
+      <div className="w-[40rem] bg-gray-900 border border-gray-600 rounded-lg p-4 shadow-xl">
+          <div className="font-bold text-lg mb-3">Play Online</div>
+          <div className="flex items-center gap-2 text-sm">
+              <input
+                  value={online.url}
+                  onChange={e => setOnline({ ...online, url: e.target.value })}
+                  className="flex-1 bg-gray-800 rounded px-2 py-1"
+                  title="Relay address"
+              />
+              <input
+                  value={online.room}
+                  onChange={e => setOnline({ ...online, room: e.target.value })}
+                  className="w-28 bg-gray-800 rounded px-2 py-1"
+                  title="Room"
+              />
+              <input
+                  value={online.name}
+                  onChange={e => setOnline({ ...online, name: e.target.value })}
+                  className="w-28 bg-gray-800 rounded px-2 py-1"
+                  title="Your name"
+              />
+              <label className="flex items-center gap-1 text-xs" title="Watch without a slot; also works once the match has started">
+                  <input type="checkbox" checked={online.spectator} onChange={e => setOnline({ ...online, spectator: e.target.checked })} />
+                  Spectate
+              </label>
+              <button
+                  disabled={!online.url || !online.room}
+                  onClick={() => onJoinOnline(online)}
+                  className="flex items-center gap-1 px-4 py-1 rounded bg-blue-600 hover:bg-blue-500"
+              >
+                  <Globe size={16} /> Join
+              </button>
+          </div>
+          <div className="text-xs text-gray-400 mt-2">Start the relay with <code>npm run relay</code>. Everyone joins the same room; the first to join picks the setup.</div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchSetupScreen;
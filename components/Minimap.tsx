@@ -0,0 +1,157 @@
+import React, { useRef, useEffect } from 'react';
+import { GameState, EntityType, PlayerId, ResourceType, GameEntity, Resource, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { NEUTRAL_COLOR } from '../constants';
+import { canSee, FOG_COLS, FOG_ROWS, TileVisibility } from '../engine/visibility';
+import { clampCamera, cameraCenteredOn } from '../hooks/useCameraControls';
+import { getViewFootprint } from '../utils/cameraRig';
+
+interface MinimapProps {
+  stateRef: React.MutableRefObject<GameState>;
+  // Whose fog of war the minimap is drawn through
+  viewAs: PlayerId;
+  // Right-click order at a world point; omitted in replays
+  onRightClick?: (coords: { x: number; y: number }) => void;
+  size?: number;
+}
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const GROUND_COLOR = '#292524';
+const RESOURCE_COLORS = {
+    [ResourceType.Wood]: '#15803d',
+    [ResourceType.Food]: '#a3e635',
+    [ResourceType.Stone]: '#a8a29e',
+    [ResourceType.Gold]: '#facc15'
+};
+// Fog overlay alpha per tile state, matching the 3D view
+const FOG_ALPHA = {
+    [TileVisibility.Unexplored]: 255,
+    [TileVisibility.Explored]: 150,
+    [TileVisibility.Visible]: 0
+};
+
+// Top-down overview of the whole map. Left click or drag moves the camera,
+// right click sends the selection there.
+const Minimap: React.FC<MinimapProps> = ({ stateRef, viewAs, onRightClick, size = 144 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draggingRef = useRef(false);
+  // The draw loop is set up once, so it reads the viewer through a ref
+  const viewAsRef = useRef(viewAs);
+  viewAsRef.current = viewAs;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Fog is drawn at one pixel per tile and scaled up
+    const fogCanvas = document.createElement('canvas');
+    fogCanvas.width = FOG_COLS;
+    fogCanvas.height = FOG_ROWS;
+    const fogCtx = fogCanvas.getContext('2d')!;
+    const fogImage = fogCtx.createImageData(FOG_COLS, FOG_ROWS);
+
+    const scaleX = size / MAP_WIDTH;
+    const scaleY = size / MAP_HEIGHT;
+    let frameId: number;
+
+    const draw = () => {
+        frameId = requestAnimationFrame(draw);
+        const state = stateRef.current;
+        const viewer = viewAsRef.current;
+
+        ctx.fillStyle = GROUND_COLOR;
+        ctx.fillRect(0, 0, size, size);
+
+        (Object.values(state.entities) as GameEntity[]).forEach(e => {
+            if (e.entityType === EntityType.Projectile || !canSee(state, viewer, e)) return;
+            const x = e.position.x * scaleX;
+            const y = e.position.y * scaleY;
+            if (e.entityType === EntityType.Resource) {
+                ctx.fillStyle = RESOURCE_COLORS[(e as Resource).resourceType];
+                ctx.fillRect(x - 1, y - 1, 2, 2);
+            } else if (e.entityType === EntityType.Building) {
+                const half = Math.max(2, e.radius * scaleX);
+                ctx.fillStyle = toCss(state.players[e.owner]?.color ?? NEUTRAL_COLOR);
+                ctx.fillRect(x - half, y - half, half * 2, half * 2);
+            } else {
+                ctx.fillStyle = toCss(state.players[e.owner]?.color ?? NEUTRAL_COLOR);
+                ctx.fillRect(x - 1.5, y - 1.5, 3, 3);
+            }
+        });
+
+        const fog = state.fog[viewer] ?? []; // Spectators watching everything have no fog
+        if (fog.length > 0) {
+            for (let i = 0; i < fog.length; i++) {
+                fogImage.data[i * 4 + 3] = FOG_ALPHA[fog[i] as TileVisibility];
+            }
+            fogCtx.putImageData(fogImage, 0, 0);
+            ctx.drawImage(fogCanvas, 0, 0, size, size);
+        }
+
+        // Camera frustum
+        const corners = getViewFootprint(state.camera);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        corners.forEach((c, i) => {
+            if (i === 0) ctx.moveTo(c.x * scaleX, c.y * scaleY);
+            else ctx.lineTo(c.x * scaleX, c.y * scaleY);
+        });
+        ctx.closePath();
+        ctx.stroke();
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, [size]);
+
+  const toWorld = (e: React.MouseEvent) => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      return {
+          x: Math.max(0, Math.min(MAP_WIDTH, (e.clientX - rect.left) / rect.width * MAP_WIDTH)),
+          y: Math.max(0, Math.min(MAP_HEIGHT, (e.clientY - rect.top) / rect.height * MAP_HEIGHT))
+      };
+  };
+
+  const centerCamera = (e: React.MouseEvent) => {
+      const point = toWorld(e);
+      const cam = stateRef.current.camera;
+      Object.assign(cam, cameraCenteredOn(point.x, point.y));
+      clampCamera(cam);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (e.button === 0) {
+          draggingRef.current = true;
+          centerCamera(e);
+      } else if (e.button === 2 && onRightClick) {
+          onRightClick(toWorld(e));
+      }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      if (draggingRef.current) centerCamera(e);
+  };
+
+  const stopDragging = () => {
+      draggingRef.current = false;
+  };
+
+  return (
+    <canvas
+        ref={canvasRef}
+        width={size}
+        height={size}
+        className="border border-gray-600 cursor-crosshair"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={stopDragging}
+        onMouseLeave={stopDragging}
+        onContextMenu={(e) => e.preventDefault()}
+    />
+  );
+};
+
+export default Minimap;
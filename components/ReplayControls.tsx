@@ -0,0 +1,60 @@
+import React from 'react';
+import { SIM_TICK_RATE, REPLAY_SPEEDS } from '../constants';
+import { Play, Pause, LogOut } from 'lucide-react';
+
+interface ReplayControlsProps {
+  tick: number;
+  endTick: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (ticks: number) => {
+  const seconds = Math.floor(ticks / SIM_TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick, endTick, playing, speed, onTogglePlay, onSpeedChange, onSeek, onExit
+}) => {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-gray-900/90 p-2 rounded-lg border border-gray-600 shadow-xl text-white text-sm">
+      <button onClick={onTogglePlay} className="p-1 rounded hover:bg-gray-700" title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={18} /> : <Play size={18} />}
+      </button>
+
+      <span className="font-mono w-24 text-center">{formatTime(tick)} / {formatTime(endTick)}</span>
+
+      <input
+          type="range"
+          min={0}
+          max={endTick}
+          value={tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="w-64"
+      />
+
+      <div className="flex gap-1">
+          {REPLAY_SPEEDS.map(s => (
+              <button
+                  key={s}
+                  onClick={() => onSpeedChange(s)}
+                  className={`px-2 py-0.5 rounded border text-xs ${s === speed ? 'bg-blue-600 border-blue-400' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`}
+              >
+                  {s}x
+              </button>
+          ))}
+      </div>
+
+      <button onClick={onExit} className="p-1 rounded hover:bg-gray-700" title="Exit replay">
+          <LogOut size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
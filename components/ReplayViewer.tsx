@@ -0,0 +1,71 @@
+import React from 'react';
+import GameMap from './GameMap';
+import SpectatorHUD from './SpectatorHUD';
+import SpectatorControls from './SpectatorControls';
+import Minimap from './Minimap';
+import ReplayControls from './ReplayControls';
+import { useReplayPlayer } from '../hooks/useReplayPlayer';
+import { useSpectator } from '../hooks/useSpectator';
+import { getHumanPlayers } from '../engine/players';
+import { Replay } from '../engine/replay';
+import { combineSelection } from '../engine/selection';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onExit: () => void;
+}
+
+const noop = () => {};
+
+// Read-only match view: re-simulates a recorded match and renders it with
+// the regular GameMap and the spectator HUD. Starts out following the human.
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const { gameState, stateRef, playing, setPlaying, speed, setSpeed, seek } = useReplayPlayer(replay);
+  const { follow, setFollow, viewAs } = useSpectator(stateRef, () => replay.commands, getHumanPlayers(replay.setup)[0] ?? null);
+
+  const handleSelection = (ids: string[], add: boolean) => {
+      const state = stateRef.current;
+      state.selectedEntityIds = add ? combineSelection(state, viewAs, state.selectedEntityIds, ids) : ids;
+  };
+
+  return (
+    <div className="flex flex-col h-screen w-screen overflow-hidden bg-black text-white">
+      <div className="flex-1 relative overflow-hidden">
+         <GameMap
+            stateRef={stateRef}
+            gameState={gameState}
+            commandMode={null}
+            viewAs={viewAs}
+            readOnly
+            onSelection={handleSelection}
+            onRightClick={noop}
+            onPlaceBuilding={noop}
+            onAttackMove={noop}
+            onPatrol={noop}
+            onGuard={noop}
+         />
+         <ReplayControls
+            tick={gameState.tick}
+            endTick={replay.endTick}
+            playing={playing}
+            speed={speed}
+            onTogglePlay={() => setPlaying(!playing)}
+            onSpeedChange={setSpeed}
+            onSeek={seek}
+            onExit={onExit}
+         />
+         <SpectatorControls gameState={gameState} follow={follow} onFollowChange={setFollow} />
+         {gameState.tick >= replay.endTick && replay.winner !== null && (
+             <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 text-2xl font-bold">
+                 Team {replay.winner + 1} wins
+             </div>
+         )}
+      </div>
+      <SpectatorHUD gameState={gameState}>
+        <Minimap stateRef={stateRef} viewAs={viewAs} />
+      </SpectatorHUD>
+    </div>
+  );
+};
+
+export default ReplayViewer;
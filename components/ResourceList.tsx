@@ -0,0 +1,55 @@
+import React from 'react';
+import { ResourceType, ResourceCost } from '../types';
+import { RESOURCE_TYPES, getResourceName } from '../engine/resources';
+import { Trees, Wheat, Mountain, Coins } from 'lucide-react';
+
+const RESOURCE_ICONS = {
+  [ResourceType.Wood]: Trees,
+  [ResourceType.Food]: Wheat,
+  [ResourceType.Stone]: Mountain,
+  [ResourceType.Gold]: Coins,
+};
+
+export const RESOURCE_TEXT = {
+  [ResourceType.Wood]: 'text-amber-500',
+  [ResourceType.Food]: 'text-green-400',
+  [ResourceType.Stone]: 'text-stone-300',
+  [ResourceType.Gold]: 'text-yellow-400',
+};
+
+interface ResourceListProps {
+  amounts: ResourceCost;
+  // Costs only list what they need, as short "50W" labels
+  cost?: boolean;
+  iconSize?: number;
+}
+
+// Every resource in a stockpile, or the resources a cost asks for
+const ResourceList: React.FC<ResourceListProps> = ({ amounts, cost = false, iconSize = 18 }) => {
+  if (cost) {
+    return (
+      <>
+        {RESOURCE_TYPES.filter(type => (amounts[type] || 0) > 0).map(type => (
+            <span key={type} className={RESOURCE_TEXT[type]} title={getResourceName(type)}>
+                {amounts[type]}{type[0]}
+            </span>
+        ))}
+      </>
+    );
+  }
+  return (
+    <>
+      {RESOURCE_TYPES.map(type => {
+          const Icon = RESOURCE_ICONS[type];
+          return (
+              <span key={type} className={`flex items-center gap-1 ${RESOURCE_TEXT[type]}`} title={getResourceName(type)}>
+                  <Icon size={iconSize} />
+                  <span>{Math.floor(amounts[type] || 0)}</span>
+              </span>
+          );
+      })}
+    </>
+  );
+};
+
+export default ResourceList;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Save, FolderOpen, Trash2, Download, Upload, X } from 'lucide-react';
+import { SaveFile, parseSave } from '../engine/save';
+import { listSaveSlots, writeSaveSlot, readSaveSlot, deleteSaveSlot } from '../utils/saveSlots';
+import { downloadTextFile, pickTextFile } from '../utils/files';
+
+interface SaveLoadMenuProps {
+  onSave: () => string; // Serialized SaveFile of the running match
+  onLoad: (save: SaveFile) => void;
+  onClose: () => void;
+}
+
+const formatGameTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const SaveLoadMenu: React.FC<SaveLoadMenuProps> = ({ onSave, onLoad, onClose }) => {
+  const [slots, setSlots] = useState(listSaveSlots);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => setSlots(listSaveSlots());
+
+  const load = (json: string | null) => {
+      if (!json) return;
+      try {
+          onLoad(parseSave(json));
+          onClose();
+      } catch (err) {
+          setError((err as Error).message);
+      }
+  };
+
+  const handleSaveSlot = (slot: number) => {
+      try {
+          writeSaveSlot(slot, onSave());
+          setError(null);
+      } catch {
+          setError('Browser storage is full');
+      }
+      refresh();
+  };
+
+  const handleDeleteSlot = (slot: number) => {
+      deleteSaveSlot(slot);
+      refresh();
+  };
+
+  const handleLoadFile = async () => {
+      try {
+          load(await pickTextFile());
+      } catch (err) {
+          setError((err as Error).message);
+      }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/60" onMouseDown={e => e.stopPropagation()}>
+      <div className="w-96 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white shadow-xl">
+          <div className="flex items-center justify-between mb-3">
+              <div className="font-bold text-lg">Save / Load</div>
+              <button onClick={onClose} className="p-1 rounded hover:bg-gray-700"><X size={18} /></button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+              {slots.map(info => (
+                  <div key={info.slot} className="flex items-center gap-2 bg-gray-800 rounded p-2">
+                      <div className="flex-1 text-sm">
+                          <div className="font-bold">Slot {info.slot + 1}</div>
+                          <div className="text-xs text-gray-400">
+                              {info.savedAt ? `${new Date(info.savedAt).toLocaleString()} · ${formatGameTime(info.gameTime || 0)}` : 'Empty'}
+                          </div>
+                      </div>
+                      <button onClick={() => handleSaveSlot(info.slot)} className="p-1 rounded hover:bg-gray-700" title="Save"><Save size={16} /></button>
+                      <button
+                          disabled={!info.savedAt}
+                          onClick={() => load(readSaveSlot(info.slot))}
+                          className={`p-1 rounded ${info.savedAt ? 'hover:bg-gray-700' : 'opacity-30'}`}
+                          title="Load"
+                      >
+                          <FolderOpen size={16} />
+                      </button>
+                      <button
+                          disabled={!info.savedAt}
+                          onClick={() => handleDeleteSlot(info.slot)}
+                          className={`p-1 rounded ${info.savedAt ? 'hover:bg-gray-700' : 'opacity-30'}`}
+                          title="Delete"
+                      >
+                          <Trash2 size={16} />
+                      </button>
+                  </div>
+              ))}
+          </div>
+
+          <div className="flex gap-2 mt-3">
+              <button
+                  onClick={() => downloadTextFile(`save-${Date.now()}.json`, onSave())}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+              >
+                  <Download size={14} /> Download
+              </button>
+              <button onClick={handleLoadFile} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm">
+                  <Upload size={14} /> Load File
+              </button>
+          </div>
+
+          {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default SaveLoadMenu;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { PlayerSlot, ControllerType, AIDifficulty } from '../types';
+import { PLAYER_COLORS, MIN_PLAYERS, MAX_PLAYERS } from '../constants';
+import { AI_STRATEGIES, RANDOM_STRATEGY } from '../engine/strategies';
+
+interface SlotEditorProps {
+  slots: PlayerSlot[];
+  onChange: (slots: PlayerSlot[]) => void;
+  readOnly?: boolean;
+}
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Slot list shared by the offline setup and the online lobby. Slot order
+// decides the start position.
+const SlotEditor: React.FC<SlotEditorProps> = ({ slots, onChange, readOnly = false }) => {
+  const updateSlot = (index: number, change: Partial<PlayerSlot>) => {
+      onChange(slots.map((s, i) => i === index ? { ...s, ...change } : s));
+  };
+
+  // The new slot gets the first unused color and its own team
+  const addSlot = () => {
+      const color = PLAYER_COLORS.find(c => !slots.some(s => s.color === c)) ?? PLAYER_COLORS[0];
+      const team = Math.max(...slots.map(s => s.team)) + 1;
+      onChange([...slots, { controller: ControllerType.AI, color, team }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+        {slots.map((slot, i) => (
+            <fieldset key={i} disabled={readOnly} className="flex items-center gap-2 bg-gray-800 rounded p-2 text-sm">
+                <div className="w-8 font-bold">P{i + 1}</div>
+                <select
+                    value={slot.controller}
+                    onChange={e => updateSlot(i, { controller: e.target.value as ControllerType })}
+                    className="bg-gray-700 rounded px-1 py-0.5"
+                >
+                    <option value={ControllerType.Human}>Human</option>
+                    <option value={ControllerType.AI}>AI</option>
+                </select>
+                {slot.controller === ControllerType.AI && (
+                    <select
+                        value={slot.difficulty || AIDifficulty.Normal}
+                        onChange={e => updateSlot(i, { difficulty: e.target.value as AIDifficulty })}
+                        className="bg-gray-700 rounded px-1 py-0.5"
+                    >
+                        <option value={AIDifficulty.Easy}>Easy</option>
+                        <option value={AIDifficulty.Normal}>Normal</option>
+                        <option value={AIDifficulty.Hard}>Hard</option>
+                    </select>
+                )}
+                {slot.controller === ControllerType.AI && (
+                    <select
+                        value={slot.strategy || RANDOM_STRATEGY}
+                        onChange={e => updateSlot(i, { strategy: e.target.value })}
+                        className="bg-gray-700 rounded px-1 py-0.5"
+                    >
+                        <option value={RANDOM_STRATEGY}>Random</option>
+                        {Object.entries(AI_STRATEGIES).map(([id, s]) => <option key={id} value={id}>{s.name}</option>)}
+                    </select>
+                )}
+                <select
+                    value={slot.team}
+                    onChange={e => updateSlot(i, { team: Number(e.target.value) })}
+                    className="bg-gray-700 rounded px-1 py-0.5"
+                >
+                    {Array.from({ length: MAX_PLAYERS }, (_, t) => <option key={t} value={t}>Team {t + 1}</option>)}
+                </select>
+                <div className="flex gap-1 flex-1">
+                    {PLAYER_COLORS.map(c => (
+                        <button
+                            key={c}
+                            onClick={() => updateSlot(i, { color: c })}
+                            className={`w-4 h-4 rounded-sm border ${c === slot.color ? 'border-white' : 'border-transparent'}`}
+                            style={{ backgroundColor: toCss(c) }}
+                        />
+                    ))}
+                </div>
+                {!readOnly && (
+                    <button
+                        disabled={slots.length <= MIN_PLAYERS}
+                        onClick={() => onChange(slots.filter((_, j) => j !== i))}
+                        className={`p-1 rounded ${slots.length > MIN_PLAYERS ? 'hover:bg-gray-700' : 'opacity-30'}`}
+                        title="Remove"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                )}
+            </fieldset>
+        ))}
+        {!readOnly && (
+            <button
+                disabled={slots.length >= MAX_PLAYERS}
+                onClick={addSlot}
+                className={`self-start flex items-center gap-1 px-2 py-1 rounded text-xs ${slots.length < MAX_PLAYERS ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-700 opacity-30'}`}
+            >
+                <Plus size={14} /> Add Player
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default SlotEditor;
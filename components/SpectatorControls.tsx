@@ -0,0 +1,36 @@
+import React from 'react';
+import { Eye, Video } from 'lucide-react';
+import { GameState, PlayerId } from '../types';
+import { getPlayerIds } from '../engine/players';
+
+interface SpectatorControlsProps {
+  gameState: GameState;
+  // Followed player, or null for the free camera
+  follow: PlayerId | null;
+  onFollowChange: (player: PlayerId | null) => void;
+}
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Perspective picker for observers: follow one player or look around freely
+const SpectatorControls: React.FC<SpectatorControlsProps> = ({ gameState, follow, onFollowChange }) => {
+  const buttonClass = (active: boolean) =>
+      `flex items-center gap-1 px-2 py-0.5 rounded border text-xs ${active ? 'bg-blue-600 border-blue-400' : 'bg-gray-700 border-gray-600 hover:bg-gray-600'}`;
+
+  return (
+    <div className="absolute top-4 right-4 z-20 flex items-center gap-1 bg-gray-900/90 p-2 rounded-lg border border-gray-600 shadow-xl text-white">
+      <button onClick={() => onFollowChange(null)} className={buttonClass(follow === null)} title="See the whole map and scroll freely">
+          <Video size={14} /> Free
+      </button>
+      {getPlayerIds(gameState).map(id => (
+          <button key={id} onClick={() => onFollowChange(id)} className={buttonClass(follow === id)} title={`Follow ${id}`}>
+              <Eye size={14} />
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: toCss(gameState.players[id].color) }} />
+              {id}
+          </button>
+      ))}
+    </div>
+  );
+};
+
+export default SpectatorControls;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { GameState } from '../types';
+import { summarizePlayers } from '../engine/spectator';
+import { getUnitDef, getBuildingDef } from '../engine/definitions';
+import { Users, Sword, Pickaxe, FlaskConical } from 'lucide-react';
+import ResourceList from './ResourceList';
+import DefinitionIcon from './DefinitionIcon';
+
+interface SpectatorHUDProps {
+  gameState: GameState;
+  // Minimap panel, docked at the right edge
+  children?: React.ReactNode;
+}
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Observer bottom bar: every player's economy, army and production side by
+// side, in place of the regular HUD's selection and order panels.
+const SpectatorHUD: React.FC<SpectatorHUDProps> = ({ gameState, children }) => {
+  const summaries = summarizePlayers(gameState);
+
+  return (
+    <div className="absolute bottom-0 left-0 w-full h-40 bg-gray-900 border-t-2 border-gray-700 flex text-white font-sans">
+      <div className="flex-1 flex overflow-x-auto">
+          {summaries.map(p => (
+              <div key={p.id} className={`min-w-[11rem] flex-1 border-r border-gray-700 p-2 flex flex-col gap-1 text-xs ${p.defeated ? 'opacity-40' : ''}`}>
+                  <div className="flex items-center gap-2 font-bold text-sm">
+                      <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: toCss(p.color) }} />
+                      {p.id}
+                      <span className="font-normal text-gray-400">Team {p.team + 1}</span>
+                      {p.defeated && <span className="text-red-400">Defeated</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3">
+                      <ResourceList amounts={p.resources} iconSize={12} />
+                      <span className="flex items-center gap-1 text-blue-300"><Users size={12} />{p.population}/{p.maxPopulation}</span>
+                  </div>
+                  <div className="flex gap-3">
+                      <span className="flex items-center gap-1" title="Workers"><Pickaxe size={12} />{p.workers}</span>
+                      <span className="flex items-center gap-1 text-red-300" title="Army value (resources)"><Sword size={12} />{p.armyValue}</span>
+                  </div>
+                  <div className="flex flex-col gap-0.5 overflow-y-auto">
+                      {p.production.map(b => (
+                          <div key={b.buildingId} className="flex items-center gap-1" title={getBuildingDef(b.buildingType).name}>
+                              {b.queue.map((item, i) => {
+                                  const className = i === 0 ? 'text-white' : 'text-gray-500';
+                                  return item.tech
+                                      ? <FlaskConical key={i} size={12} className={className} />
+                                      : <DefinitionIcon key={i} icon={getUnitDef(item.unitType!).icon} size={12} className={className} />;
+                              })}
+                              <div className="flex-1 h-1 bg-gray-700 rounded">
+                                  <div className="h-1 bg-blue-400 rounded" style={{ width: `${Math.round(b.progress * 100)}%` }} />
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          ))}
+      </div>
+
+      {children && (
+          <div className="border-l border-gray-700 p-2 bg-gray-800 flex items-center">
+              {children}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default SpectatorHUD;
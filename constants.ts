@@ -1,50 +1,221 @@
-import { UnitType, BuildingType, ResourceType } from './types';
+import { UnitType, BuildingType, ResourceType, ResourceAmounts, ResourceCost, TechType, TechDefinition, AIDifficulty, AIProfile, UnitStance } from './types';
 
-// Costs
-export const UNIT_COSTS: Record<UnitType, { wood: number; food: number; time: number }> = {
-  [UnitType.Peasant]: { wood: 0, food: 50, time: 5 },
-  [UnitType.Militia]: { wood: 20, food: 60, time: 8 }, // Basic melee
-  [UnitType.Archer]: { wood: 50, food: 40, time: 10 }, // Ranged
-};
-
-export const BUILDING_COSTS: Record<BuildingType, { wood: number; food: number; time: number }> = {
-  [BuildingType.TownCenter]: { wood: 300, food: 0, time: 60 },
-  [BuildingType.Barracks]: { wood: 150, food: 0, time: 20 },
-  [BuildingType.House]: { wood: 50, food: 0, time: 10 },
-  [BuildingType.Farm]: { wood: 60, food: 0, time: 10 },
-};
+const { Wood: WOOD, Food: FOOD, Stone: STONE, Gold: GOLD } = ResourceType;
 
-// Stats
-export const UNIT_STATS: Record<UnitType, { hp: number; attackDamage: number; attackRange: number; moveSpeed: number; attackCooldown: number; radius: number }> = {
-  [UnitType.Peasant]: { hp: 40, attackDamage: 3, attackRange: 15, moveSpeed: 2, attackCooldown: 1000, radius: 8 },
-  [UnitType.Militia]: { hp: 100, attackDamage: 8, attackRange: 15, moveSpeed: 2.2, attackCooldown: 1000, radius: 10 },
-  [UnitType.Archer]: { hp: 60, attackDamage: 6, attackRange: 160, moveSpeed: 2.5, attackCooldown: 1500, radius: 10 },
-};
+// Unit and building stats, costs and production live in data/units.json and
+// data/buildings.json (see engine/definitions.ts)
 
-export const BUILDING_STATS: Record<BuildingType, { hp: number; radius: number }> = {
-  [BuildingType.TownCenter]: { hp: 1500, radius: 40 },
-  [BuildingType.Barracks]: { hp: 800, radius: 30 },
-  [BuildingType.House]: { hp: 200, radius: 15 },
-  [BuildingType.Farm]: { hp: 300, radius: 25 },
-};
-
-export const POPULATION_PER_HOUSE = 5;
+// Economy
 export const BASE_POPULATION = 5;
 export const GATHER_RATE = 10;
 export const GATHER_COOLDOWN = 1000;
-export const STARTING_RESOURCES = { wood: 200, food: 200 };
+export const CARRY_CAPACITY = 40; // Peasants walk back to a drop-off once full
+export const GATHER_SEARCH_RADIUS = 400; // How far a peasant looks for a new node when theirs runs out
+export const STARTING_RESOURCES: ResourceAmounts = { [WOOD]: 200, [FOOD]: 200, [STONE]: 100, [GOLD]: 100 };
 
+// Per node: trees and berry bushes come in patches, mines hold more
 export const RESOURCE_STATS: Record<ResourceType, { maxAmount: number; color: string }> = {
-  [ResourceType.Wood]: { maxAmount: 500, color: '#8B4513' },
-  [ResourceType.Food]: { maxAmount: 500, color: '#228B22' },
+  [WOOD]: { maxAmount: 500, color: '#8B4513' },
+  [FOOD]: { maxAmount: 500, color: '#228B22' },
+  [STONE]: { maxAmount: 800, color: '#A8A29E' },
+  [GOLD]: { maxAmount: 800, color: '#EAB308' },
 };
 
+// Technologies. Modifiers add to the base value; see TechModifier.
+const MILITARY = [UnitType.Militia, UnitType.Archer, 'SPEARMAN', 'SCOUT_CAVALRY'];
+export const TECHS: Record<TechType, TechDefinition> = {
+  [TechType.Forging]: {
+    name: 'Forging', description: '+2 Militia attack', building: BuildingType.Blacksmith,
+    cost: { [FOOD]: 150, time: 25 }, requires: [],
+    modifiers: [{ stat: 'attackDamage', units: [UnitType.Militia], add: 2 }]
+  },
+  [TechType.IronCasting]: {
+    name: 'Iron Casting', description: '+2 Militia attack', building: BuildingType.Blacksmith,
+    cost: { [FOOD]: 150, [GOLD]: 100, time: 40 }, requires: [TechType.Forging],
+    modifiers: [{ stat: 'attackDamage', units: [UnitType.Militia], add: 2 }]
+  },
+  [TechType.Fletching]: {
+    name: 'Fletching', description: '+1 Archer attack, +20 range', building: BuildingType.Blacksmith,
+    cost: { [WOOD]: 50, [FOOD]: 100, time: 25 }, requires: [],
+    modifiers: [
+      { stat: 'attackDamage', units: [UnitType.Archer], add: 1 },
+      { stat: 'attackRange', units: [UnitType.Archer], add: 20 }
+    ]
+  },
+  [TechType.ScaleMail]: {
+    name: 'Scale Mail', description: '+15 HP and +1 melee armor for soldiers', building: BuildingType.Blacksmith,
+    cost: { [FOOD]: 120, time: 25 }, requires: [],
+    modifiers: [
+      { stat: 'hp', units: MILITARY, add: 15 },
+      { stat: 'meleeArmor', units: MILITARY, add: 1 }
+    ]
+  },
+  [TechType.ChainMail]: {
+    name: 'Chain Mail', description: '+20 HP and +1 pierce armor for soldiers', building: BuildingType.Blacksmith,
+    cost: { [FOOD]: 150, [GOLD]: 80, time: 40 }, requires: [TechType.ScaleMail],
+    modifiers: [
+      { stat: 'hp', units: MILITARY, add: 20 },
+      { stat: 'pierceArmor', units: MILITARY, add: 1 }
+    ]
+  },
+  [TechType.Wheelbarrow]: {
+    name: 'Wheelbarrow', description: 'Peasants carry 10 more and walk faster', building: BuildingType.TownCenter,
+    cost: { [WOOD]: 50, [FOOD]: 150, time: 30 }, requires: [],
+    modifiers: [
+      { stat: 'carryCapacity', add: 10 },
+      { stat: 'moveSpeed', units: [UnitType.Peasant], add: 0.2 }
+    ]
+  },
+  [TechType.HandCart]: {
+    name: 'Hand Cart', description: 'Peasants carry 10 more and walk faster', building: BuildingType.TownCenter,
+    cost: { [WOOD]: 100, [FOOD]: 250, time: 45 }, requires: [TechType.Wheelbarrow],
+    modifiers: [
+      { stat: 'carryCapacity', add: 10 },
+      { stat: 'moveSpeed', units: [UnitType.Peasant], add: 0.2 }
+    ]
+  },
+  [TechType.DoubleBitAxe]: {
+    name: 'Double-Bit Axe', description: '+2 wood per chop', building: BuildingType.TownCenter,
+    cost: { [WOOD]: 50, [FOOD]: 100, time: 25 }, requires: [],
+    modifiers: [{ stat: 'woodGatherRate', add: 2 }]
+  },
+  [TechType.HorseCollar]: {
+    name: 'Horse Collar', description: '+100 food per farm', building: BuildingType.Mill,
+    cost: { [WOOD]: 75, [FOOD]: 75, time: 20 }, requires: [],
+    modifiers: [{ stat: 'farmFood', add: 100 }]
+  },
+  [TechType.HeavyPlow]: {
+    name: 'Heavy Plow', description: '+100 food per farm, +2 food per harvest', building: BuildingType.Mill,
+    cost: { [WOOD]: 125, [FOOD]: 125, time: 35 }, requires: [TechType.HorseCollar],
+    modifiers: [{ stat: 'farmFood', add: 100 }, { stat: 'foodGatherRate', add: 2 }]
+  },
+  [TechType.StoneMining]: {
+    name: 'Stone Mining', description: '+2 stone per swing', building: BuildingType.MiningCamp,
+    cost: { [WOOD]: 75, [FOOD]: 100, time: 25 }, requires: [],
+    modifiers: [{ stat: 'stoneGatherRate', add: 2 }]
+  },
+  [TechType.GoldMining]: {
+    name: 'Gold Mining', description: '+2 gold per swing', building: BuildingType.MiningCamp,
+    cost: { [WOOD]: 75, [FOOD]: 100, time: 25 }, requires: [],
+    modifiers: [{ stat: 'goldGatherRate', add: 2 }]
+  },
+};
+
+// Combat
+export const MIN_DAMAGE = 1; // Every hit does at least this much, whatever the armor
+export const ATTACK_MOVE_ACQUIRE_RANGE = 250; // Aggressive units that attack-move or patrol pick fights this far off; other stances keep their own range
+export const GUARD_DISTANCE = 40; // Guards stay within this of their charge, edge to edge
+export const MAX_PATROL_WAYPOINTS = 8;
+
+// Stances. `acquireRange`: how far an idle unit looks for enemies (null:
+// its own attack range). `leash`: how far it chases from where the fight
+// started before walking back (null: no limit). Guards measure the leash
+// from whatever they guard.
+export const STANCES: Record<UnitStance, { name: string; description: string; acquireRange: number | null; leash: number | null }> = {
+  [UnitStance.Aggressive]: { name: 'Aggressive', description: 'Attacks enemies that come near and chases them anywhere', acquireRange: 150, leash: null },
+  [UnitStance.Defensive]: { name: 'Defensive', description: 'Attacks enemies that come near but stays close to its post', acquireRange: 150, leash: 200 },
+  [UnitStance.StandGround]: { name: 'Stand Ground', description: 'Attacks enemies in range without moving', acquireRange: null, leash: 0 },
+  [UnitStance.NoAttack]: { name: 'No Attack', description: 'Only fights when ordered to', acquireRange: 0, leash: 0 },
+};
+
+// Production
+export const MAX_PRODUCTION_QUEUE = 5; // Units and techs a building can have queued at once
+
+// Formations
+export const FORMATION_GAP = 6; // Space between neighbours, edge to edge
+export const FORMATION_MAX_WIDTH = 10; // Units per row in a line; boxes are as wide as they are deep
+
 // Farm specific
 export const FARM_MAX_FOOD = 300;
 export const FARM_GENERATION_RATE = 2; // Auto gen per second
 export const FARM_GENERATION_INTERVAL = 1000;
 export const FARM_WORKER_BOOST = 8; // Extra food per gather cycle when working
+export const FARM_RESEED_COST: ResourceCost = { [WOOD]: 20 };
+
+// Simulation
+export const SIM_TICK_RATE = 60; // Ticks per second
+export const SIM_DT = 1000 / SIM_TICK_RATE; // Fixed step in ms
+export const MAX_TICKS_PER_FRAME = 5; // Avoid spiral of death after tab switches
+
+// Navigation
+export const NAV_CELL_SIZE = 20;
+export const NAV_CLEARANCE = 4; // Extra margin around obstacles when marking cells blocked
+export const NAV_MAX_EXPANSIONS = 4000; // A* budget per search
+export const NAV_REPATH_DISTANCE = 40; // Re-plan once the goal drifts this far
+
+// Building placement
+export const BUILD_GRID_SIZE = 20; // Placement snaps to this grid (matches NAV_CELL_SIZE)
+export const BUILD_GAP = 6; // Minimum free space kept around a new footprint
+export const MAX_WALL_SEGMENTS = 30; // Longest wall line one order can lay
+
+// Spatial index
+export const SPATIAL_CELL_SIZE = 100;
+
+// Fog of war
+export const FOG_TILE_SIZE = 50;
+export const FOG_UPDATE_TICKS = 6; // Recompute visibility every N ticks (10 Hz)
+
+// Replays
+export const REPLAY_SNAPSHOT_INTERVAL = 600; // Ticks between cached states used for scrubbing
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Lockstep multiplayer
+export const LOCKSTEP_TURN_TICKS = 6; // Inputs are exchanged once per turn (100 ms)
+export const LOCKSTEP_INPUT_DELAY = 2; // Local orders are scheduled this many turns ahead
+export const CHECKSUM_INTERVAL = 60; // Ticks between state checksums sent to the relay
+export const RELAY_PORT = 8787;
+export const RECONNECT_INTERVAL = 2000; // ms between reconnect attempts
+export const RECONNECT_GRACE = 20000; // A disconnected player is dropped after this long (ms)
+export const LOCKSTEP_WAIT_NOTICE = 500; // Stalls longer than this show "Waiting for players" (ms)
+
+// Saves
+export const SAVE_SLOT_COUNT = 3;
 
 // Camera
 export const EDGE_SCROLL_THRESHOLD = 20; // px
-export const EDGE_SCROLL_SPEED = 10;
\ No newline at end of file
+export const EDGE_SCROLL_SPEED = 10;
+export const CAMERA_FOV = 60;
+export const CAMERA_HEIGHT = 500;
+export const CAMERA_OFFSET_Z = 400; // How far south of its target the 3D camera sits
+export const SPECTATOR_CAMERA_EASE = 0.08; // Share of the distance to a followed player's focus covered per frame
+export const GROUP_DOUBLE_TAP_TIME = 300; // Pressing a control group's key twice within this (ms) centres the camera on it
+
+// Players
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+// Selectable player colors, in default slot order
+export const PLAYER_COLORS = [
+  0x2563EB, // Blue
+  0xDC2626, // Red
+  0x16A34A, // Green
+  0xEAB308, // Yellow
+  0x9333EA, // Purple
+  0xEA580C, // Orange
+  0x0891B2, // Teal
+  0xDB2777, // Pink
+];
+export const NEUTRAL_COLOR = 0xA8A29E; // Grey
+// Town Center positions by slot: opposite corners first, then the other
+// corners, then the edge midpoints
+export const START_POSITIONS = [
+  { x: 300, y: 300 },
+  { x: 1700, y: 1700 },
+  { x: 1700, y: 300 },
+  { x: 300, y: 1700 },
+  { x: 1000, y: 250 },
+  { x: 1000, y: 1750 },
+  { x: 250, y: 1000 },
+  { x: 1750, y: 1000 },
+];
+
+// AI difficulty presets
+export const AI_PROFILES: Record<AIDifficulty, AIProfile> = {
+  [AIDifficulty.Easy]: { reactionTime: 2500, apm: 60, peasantTarget: 8, farmTarget: 3, barracksTarget: 1, towerTarget: 1, micro: false },
+  [AIDifficulty.Normal]: { reactionTime: 1000, apm: 600, peasantTarget: 12, farmTarget: 6, barracksTarget: 2, towerTarget: 2, micro: false },
+  [AIDifficulty.Hard]: { reactionTime: 500, apm: 1200, peasantTarget: 16, farmTarget: 8, barracksTarget: 3, towerTarget: 3, micro: true },
+};
+
+export const AI_BUILD_ORDER_STALL_TIME = 45000; // A build order step stuck this long (ms) is skipped
+
+// HUD
+export const NOTICE_DURATION = 3000; // How long a rejected order message stays up (ms)
\ No newline at end of file
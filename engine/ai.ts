@@ -0,0 +1,387 @@
+import {
+  EntityType,
+  UnitType,
+  BuildingType,
+  BuildingTypeId,
+  Unit,
+  Building,
+  GameEntity,
+  ResourceType,
+  Resource,
+  AIState,
+  BuildOrderStep,
+  Command,
+  CommandType,
+  TechType,
+  Vector2D,
+} from '../types';
+import { TECHS, FARM_RESEED_COST, AI_BUILD_ORDER_STALL_TIME } from '../constants';
+import { random } from './rng';
+import { getDistance } from './utils';
+import { AIController, AIView } from './aiController';
+import { getStrategy } from './strategies';
+import { RESOURCE_TYPES, createResourceAmounts, canAfford, spendResources } from './resources';
+import { getUnitDef, getBuildingDef, unitHasAbility, buildingHasAbility, getTrainableUnits } from './definitions';
+
+// Drop-off the AI builds next to a patch of each resource
+const CAMP_FOR_RESOURCE: Record<ResourceType, BuildingType> = {
+  [ResourceType.Wood]: BuildingType.LumberCamp,
+  [ResourceType.Food]: BuildingType.Mill,
+  [ResourceType.Stone]: BuildingType.MiningCamp,
+  [ResourceType.Gold]: BuildingType.MiningCamp,
+};
+
+// Start position of a surviving enemy; the last resort once the whole map has
+// been explored and no enemy building is in sight
+const findEnemyStart = (view: AIView): Vector2D | null => {
+  const enemy = view.players.find(p => view.isEnemy(p.id) && !p.defeated);
+  return enemy ? { ...enemy.start } : null;
+};
+
+// --- STANDARD AI ---
+// The built-in bot. Follows the build order of its strategy, then falls back
+// to reactive rules tuned by its difficulty profile, which also sets how
+// often it decides and whether it micros. It only perceives what its own fog
+// of war reveals, so the enemy base has to be scouted before it can be attacked.
+const updateStandardAI = (view: AIView, memory: AIState): Command[] => {
+  const { player, profile } = view;
+  const strategy = getStrategy(memory.strategy);
+  const commands: Command[] = [];
+  const issue = (command: Command) => commands.push(command);
+
+  // Orders are applied after this function returns, so track spending and
+  // assignments locally to avoid over-committing within one update
+  const budget = { ...view.self.resources };
+  const ai = view.self;
+  const busy = new Set<string>();
+
+  // Everything the AI may react to; enemies under the fog are unknown to it
+  const known = view.entities as GameEntity[];
+  const myEntities = known.filter(e => e.owner === player);
+  const myUnits = myEntities.filter(e => e.entityType === EntityType.Unit) as Unit[];
+  const peasants = myUnits.filter(u => unitHasAbility(u.unitType, 'gather'));
+  const army = myUnits.filter(u => !unitHasAbility(u.unitType, 'gather'));
+  const myBuildings = myEntities.filter(e => e.entityType === EntityType.Building) as Building[];
+  const tc = myBuildings.find(b => b.buildingType === BuildingType.TownCenter);
+  const barracks = myBuildings.filter(b => b.buildingType === BuildingType.Barracks);
+  const isFarm = (b: Building) => buildingHasAbility(b.buildingType, 'farm');
+
+  const visibleEnemies = known.filter(e => view.isEnemy(e.owner));
+
+  // Remember an enemy base once seen (the closest one), forget it once seen destroyed
+  const enemyTCs = visibleEnemies.filter(e => e.entityType === EntityType.Building && (e as Building).buildingType === BuildingType.TownCenter);
+  const home = tc ? tc.position : { x: 0, y: 0 };
+  const enemyTC = enemyTCs.sort((a, b) => getDistance(a.position, home) - getDistance(b.position, home))[0];
+  if (enemyTC) {
+    memory.knownEnemyBase = { ...enemyTC.position };
+  } else if (memory.knownEnemyBase && view.isVisible(memory.knownEnemyBase)) {
+    const otherBuilding = visibleEnemies.find(e => e.entityType === EntityType.Building);
+    memory.knownEnemyBase = otherBuilding ? { ...otherBuilding.position } : null;
+  }
+
+  // Queued or done techs are not ordered again; the rest wait for their prerequisites
+  const orderedTechs = new Set<TechType>();
+  const canResearch = (tech: TechType) => !ai.techs.includes(tech) && !orderedTechs.has(tech) &&
+    !myBuildings.some(b => b.productionQueue.some(q => q.tech === tech)) &&
+    TECHS[tech].requires.every(t => ai.techs.includes(t));
+
+  const findBuilder = () => peasants.find(p => p.state !== 'BUILDING' && !busy.has(p.id));
+
+  // Footprints of buildings ordered this update, not yet in the state
+  const reserved: { position: Vector2D; radius: number }[] = [];
+
+  // Random spot within `spread` of `near` (the Town Center by default),
+  // moved to the closest place the placement rules allow
+  const placeBuilding = (type: BuildingTypeId, spread: number, near: Vector2D | null = tc ? tc.position : null) => {
+    const builder = findBuilder();
+    if (!builder) return;
+    const origin = near || builder.position;
+    const x = origin.x + (random(memory) * spread * 2 - spread);
+    const y = origin.y + (random(memory) * spread * 2 - spread);
+    const position = view.findPlacement(type, { x, y }, 200, { reserved });
+    if (!position) return;
+
+    const def = getBuildingDef(type);
+    spendResources(budget, def.cost);
+    busy.add(builder.id);
+    reserved.push({ position, radius: def.stats.radius });
+    issue({ type: CommandType.Build, player, unitIds: [builder.id], buildingType: type, position });
+  };
+
+  // 0. Scouting
+  // One unit explores until the enemy base is found. Prefer a soldier, but
+  // send a peasant early on so the AI is not blind until its first barracks.
+  if (!memory.knownEnemyBase) {
+    let scout = myUnits.find(u => u.id === memory.scoutId);
+    if (!scout) {
+      scout = army[0] || (peasants.length >= 4 ? peasants[peasants.length - 1] : undefined);
+      memory.scoutId = scout ? scout.id : null;
+    }
+    if (scout) {
+      busy.add(scout.id);
+      // Retarget as soon as the current destination has been seen
+      const arrived = !scout.moveTarget || view.isExplored(scout.moveTarget);
+      if (scout.state === 'IDLE' || scout.state === 'GATHERING' || (scout.state === 'MOVING' && arrived)) {
+        const target = view.findNearestUnexplored(scout.position, tc ? tc.position : undefined);
+        if (target) issue({ type: CommandType.Move, player, unitIds: [scout.id], target });
+      }
+    }
+  } else if (memory.scoutId) {
+    // Base found: the scout goes back to its normal duties
+    memory.scoutId = null;
+  }
+
+  // 1. Worker Management (Always keep busy)
+  // Gatherers are split across the resources as the strategy asks: an idle
+  // peasant goes to the one furthest below its share that has a known node
+  const gatherers = createResourceAmounts();
+  peasants.forEach(p => {
+    if (p.gatherType && (p.state === 'GATHERING' || p.state === 'RETURNING')) gatherers[p.gatherType]++;
+  });
+  const totalShare = RESOURCE_TYPES.reduce((sum, type) => sum + (strategy.gatherRatio[type] || 0), 0);
+  const findNode = (from: Vector2D, type: ResourceType) => view.findNearest(from, e =>
+    (e.entityType === EntityType.Resource && (e as Resource).resourceType === type) ||
+    // Food also comes from our own farms
+    (type === ResourceType.Food && e.entityType === EntityType.Building && e.owner === player &&
+      isFarm(e as Building) && (e as Building).isBuilt && ((e as Building).resourceAmount || 0) > 0)
+  );
+  let reseeded = false;
+  peasants.forEach(p => {
+    if (p.state === 'IDLE' && !busy.has(p.id)) {
+      // Reseed depleted farms?
+      const depletedFarm = myBuildings.find(b => isFarm(b) && b.isBuilt && (b.resourceAmount || 0) <= 0);
+      if (!reseeded && depletedFarm && canAfford(budget, FARM_RESEED_COST)) {
+        spendResources(budget, FARM_RESEED_COST);
+        reseeded = true;
+        busy.add(p.id);
+        issue({ type: CommandType.Reseed, player, buildingId: depletedFarm.id, unitIds: [p.id] });
+        return;
+      }
+
+      const working = RESOURCE_TYPES.reduce((n, type) => n + gatherers[type], 0);
+      const shortage = (type: ResourceType) => (strategy.gatherRatio[type] || 0) / totalShare * (working + 1) - gatherers[type];
+      const wanted = [...RESOURCE_TYPES].sort((a, b) => shortage(b) - shortage(a));
+      for (const type of wanted) {
+        const target = findNode(p.position, type);
+        if (target) {
+          gatherers[type]++;
+          issue({ type: CommandType.Gather, player, unitIds: [p.id], targetId: target.id });
+          break;
+        }
+      }
+    }
+  });
+
+  // 2. Build Order
+  // One step at a time. While a step is in progress the reactive expansion
+  // below stands down. A step stuck for AI_BUILD_ORDER_STALL_TIME is skipped,
+  // and once the plan runs out the reactive rules take over for good.
+  const queuedPopulation = myBuildings.reduce((n, b) => n + b.productionQueue.filter(q => q.unitType).length, 0);
+  const isStepDone = (step: BuildOrderStep) => {
+    if ('research' in step) {
+      return ai.techs.includes(step.research) || myBuildings.some(b => b.productionQueue.some(q => q.tech === step.research));
+    }
+    if ('train' in step) {
+      return myUnits.filter(u => u.unitType === step.train).length +
+        myBuildings.reduce((n, b) => n + b.productionQueue.filter(q => q.unitType === step.train).length, 0) >= step.count;
+    }
+    return myBuildings.filter(b => b.buildingType === step.build).length >= step.count;
+  };
+
+  let step: BuildOrderStep | undefined = strategy.buildOrder[memory.buildOrderStep];
+  while (step && isStepDone(step)) {
+    memory.buildOrderStep++;
+    memory.stepStartedAt = view.gameTime;
+    step = strategy.buildOrder[memory.buildOrderStep];
+  }
+  if (step && view.gameTime - memory.stepStartedAt > AI_BUILD_ORDER_STALL_TIME) {
+    memory.buildOrderStep++;
+    memory.stepStartedAt = view.gameTime;
+    step = undefined; // Reactive rules decide this time
+  }
+  const followingPlan = !!step;
+
+  if (step) {
+    const cost = 'train' in step ? getUnitDef(step.train).cost : 'build' in step ? getBuildingDef(step.build).cost : TECHS[step.research].cost;
+    const affordable = canAfford(budget, cost);
+    if ('train' in step) {
+      const unitType = step.train;
+      const producer = myBuildings.find(b =>
+        b.isBuilt && b.productionQueue.length === 0 && getTrainableUnits(b.buildingType).includes(unitType)
+      );
+      const housed = ai.population + queuedPopulation < ai.maxPopulation;
+      if (producer && housed && affordable) {
+        spendResources(budget, cost);
+        busy.add(producer.id);
+        issue({ type: CommandType.Train, player, buildingId: producer.id, unitType });
+      } else if (producer && housed) {
+        // Save up for it
+        spendResources(budget, cost);
+      }
+    } else if ('research' in step) {
+      const tech = step.research;
+      const lab = myBuildings.find(b => b.isBuilt && b.buildingType === TECHS[tech].building && b.productionQueue.length === 0);
+      if (lab && canResearch(tech) && affordable) {
+        spendResources(budget, cost);
+        busy.add(lab.id);
+        orderedTechs.add(tech);
+        issue({ type: CommandType.Research, player, buildingId: lab.id, tech });
+      } else if (lab) {
+        spendResources(budget, cost);
+      }
+    } else if (affordable) {
+      placeBuilding(step.build, step.build === BuildingType.House ? 100 : 150);
+    } else {
+      spendResources(budget, cost);
+    }
+  }
+
+  // 3. Economy Expansion
+  // Train Peasants up to the profile's target
+  if (!followingPlan && tc && tc.isBuilt && peasants.length < profile.peasantTarget && tc.productionQueue.length === 0) {
+    const cost = getUnitDef(UnitType.Peasant).cost;
+    if (canAfford(budget, cost) && ai.population < ai.maxPopulation) {
+      spendResources(budget, cost);
+      busy.add(tc.id);
+      issue({ type: CommandType.Train, player, buildingId: tc.id, unitType: UnitType.Peasant });
+    }
+  }
+
+  // Build House if pop capped
+  if (ai.population >= ai.maxPopulation - 2 && canAfford(budget, getBuildingDef(BuildingType.House).cost)) {
+    placeBuilding(BuildingType.House, 100);
+  }
+
+  // Build Farms if food sources are far or low
+  if (!followingPlan && budget[ResourceType.Wood] > 150 && myBuildings.filter(isFarm).length < profile.farmTarget) {
+    placeBuilding(BuildingType.Farm, 150);
+  }
+
+  // Drop-offs: a Lumber Camp, Mill or Mining Camp next to whatever patch the
+  // gatherers are working once the walk back to the nearest drop-off gets long
+  RESOURCE_TYPES.forEach(type => {
+    const campType = CAMP_FOR_RESOURCE[type];
+    if (budget[ResourceType.Wood] < (getBuildingDef(campType).cost[ResourceType.Wood] || 0) + 50) return;
+    if (myBuildings.some(b => b.buildingType === campType && !b.isBuilt)) return;
+    const worker = peasants.find(p => p.gatherType === type && (p.state === 'GATHERING' || p.state === 'RETURNING'));
+    const node = worker && view.getEntity(worker.gatherTargetId);
+    if (!node || node.entityType !== EntityType.Resource) return;
+    const dropOffs = myBuildings.filter(b => getBuildingDef(b.buildingType).dropOff.includes(type));
+    if (dropOffs.some(b => getDistance(b.position, node.position) < 250)) return;
+    // Offset towards home so the camp does not sit on top of the patch
+    const home = tc ? tc.position : worker!.position;
+    const d = getDistance(home, node.position) || 1;
+    placeBuilding(campType, 20, {
+      x: node.position.x + (home.x - node.position.x) / d * 60,
+      y: node.position.y + (home.y - node.position.y) / d * 60
+    });
+  });
+
+  // 4. Military Expansion
+  // Build Barracks
+  if (!followingPlan && barracks.length < profile.barracksTarget && canAfford(budget, getBuildingDef(BuildingType.Barracks).cost)) {
+    placeBuilding(BuildingType.Barracks, 150);
+  }
+
+  // Train Units
+  let queued = 0;
+  barracks.forEach(b => {
+    if (!followingPlan && b.isBuilt && b.productionQueue.length === 0) {
+      const type = random(memory) > 0.5 ? UnitType.Militia : UnitType.Archer;
+      const cost = getUnitDef(type).cost;
+      if (canAfford(budget, cost) && ai.population + queued < ai.maxPopulation) {
+        spendResources(budget, cost);
+        queued++;
+        busy.add(b.id);
+        issue({ type: CommandType.Train, player, buildingId: b.id, unitType: type });
+      }
+    }
+  });
+
+  // Blacksmith once the army is under way, then research with what is left
+  // over at any idle building. The Town Center only researches once the
+  // peasant target is met, so upgrades never hold up the economy.
+  if (!followingPlan && barracks.some(b => b.isBuilt) && !myBuildings.some(b => b.buildingType === BuildingType.Blacksmith) &&
+    budget[ResourceType.Wood] >= (getBuildingDef(BuildingType.Blacksmith).cost[ResourceType.Wood] || 0) + 50) {
+    placeBuilding(BuildingType.Blacksmith, 150);
+  }
+  myBuildings.forEach(b => {
+    if (followingPlan || !b.isBuilt || b.productionQueue.length > 0 || busy.has(b.id)) return;
+    if (b.buildingType === BuildingType.TownCenter && peasants.length < profile.peasantTarget) return;
+    const tech = (Object.keys(TECHS) as TechType[]).find(t =>
+      TECHS[t].building === b.buildingType && canResearch(t) && canAfford(budget, TECHS[t].cost)
+    );
+    if (!tech) return;
+    spendResources(budget, TECHS[tech].cost);
+    busy.add(b.id);
+    orderedTechs.add(tech);
+    issue({ type: CommandType.Research, player, buildingId: b.id, tech });
+  });
+
+  // 5. Attack Logic
+  // Once the strategy's wave is ready, attack the enemy base, or sweep unexplored ground until it is found.
+  // Once the map is out of wood no more soldiers are coming, so go with what there is.
+  const outOfWood = !canAfford(budget, getUnitDef(UnitType.Militia).cost) &&
+    !known.some(e => e.entityType === EntityType.Resource && (e as Resource).resourceType === ResourceType.Wood);
+  const waveReady = army.length >= strategy.attack.waveSize && view.gameTime >= strategy.attack.firstWaveAt * 1000;
+  if (waveReady || (outOfWood && army.length > 0)) {
+    const attackers = army.filter(u => (u.state === 'IDLE' || u.state === 'GATHERING') && !busy.has(u.id));
+    const target = memory.knownEnemyBase ||
+      (attackers.length > 0 ? view.findNearestUnexplored(attackers[0].position, tc ? tc.position : undefined) || findEnemyStart(view) : null);
+    if (attackers.length > 0 && target) {
+      issue({ type: CommandType.AttackMove, player, unitIds: attackers.map(u => u.id), target: { ...target } });
+    }
+  }
+
+  // Towers: when enemy units come after the gatherers, put a Watch Tower up
+  // beside them, unless one already covers the spot
+  const towers = myBuildings.filter(b => b.buildingType === BuildingType.WatchTower);
+  const towerDef = getBuildingDef(BuildingType.WatchTower);
+  if (towers.length < profile.towerTarget && towers.every(b => b.isBuilt) && canAfford(budget, towerDef.cost)) {
+    const harassed = peasants.find(p =>
+      (p.state === 'GATHERING' || p.state === 'RETURNING') &&
+      view.queryRadius(p.position, 200, e => view.isEnemy(e.owner) && e.entityType === EntityType.Unit).length > 0 &&
+      !towers.some(t => getDistance(t.position, p.position) < (towerDef.stats.attackRange || 0))
+    );
+    if (harassed) placeBuilding(BuildingType.WatchTower, 40, harassed.position);
+  }
+
+  // Defend if under attack
+  const enemiesNearBase = tc ? view.queryRadius(tc.position, 400, e =>
+    view.isEnemy(e.owner) && e.entityType === EntityType.Unit
+  ) : [];
+  if (enemiesNearBase.length > 0) {
+    const defenders = army.filter(u => u.state !== 'ATTACKING').map(u => u.id);
+    if (defenders.length > 0) {
+      issue({ type: CommandType.AttackMove, player, unitIds: defenders, target: { ...enemiesNearBase[0].position } });
+    }
+  }
+
+  // 6. Micro
+  // Soldiers in a fight switch to the weakest enemy unit within reach, and
+  // badly wounded ones fall back to the Town Center
+  if (profile.micro) {
+    const focus = new Map<string, string[]>();
+    army.forEach(u => {
+      if (u.state !== 'ATTACKING' || busy.has(u.id)) return;
+      if (tc && u.hp < u.maxHp * 0.3) {
+        busy.add(u.id);
+        issue({ type: CommandType.Move, player, unitIds: [u.id], target: { ...tc.position } });
+        return;
+      }
+      const weakest = view.queryRadius(u.position, u.attackRange + u.radius + 30, e =>
+        view.isEnemy(e.owner) && e.entityType === EntityType.Unit
+      ).sort((a, b) => a.hp - b.hp)[0];
+      if (weakest && weakest.id !== u.targetId) focus.set(weakest.id, [...(focus.get(weakest.id) || []), u.id]);
+    });
+    focus.forEach((unitIds, targetId) => issue({ type: CommandType.Attack, player, unitIds, targetId }));
+  }
+
+  return commands;
+};
+
+export const standardAI: AIController = {
+  id: 'standard',
+  name: 'Standard',
+  update: updateStandardAI
+};
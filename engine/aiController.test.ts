@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { ControllerType, ResourceType } from '../types';
+import { createInitialState } from './setup';
+import { createAIView } from './aiController';
+
+describe('createAIView', () => {
+  it('hands bots copies that cannot change the match', () => {
+    const setup = { slots: [0, 1].map(i => ({ controller: ControllerType.AI, color: i, team: i })) };
+    const state = createInitialState(1, setup);
+    const view = createAIView(state, 'P1');
+    const own = view.entities.find(e => e.owner === 'P1')!;
+
+    expect(() => { (own as any).hp = 0; }).toThrow();
+    expect(() => { (own.position as any).x = 0; }).toThrow();
+    expect(() => { (view.self.resources as any)[ResourceType.Wood] = 99999; }).toThrow();
+    expect(state.entities[own.id].hp).toBeGreaterThan(0);
+    expect(view.getEntity(own.id)).toBe(own);
+  });
+});
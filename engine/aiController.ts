@@ -0,0 +1,124 @@
+import { GameState, PlayerId, PlayerState, GameEntity, AIState, AIProfile, BuildingTypeId, Command, Vector2D } from '../types';
+import { AI_PROFILES, START_POSITIONS } from '../constants';
+import { findNearest, queryRadius } from './spatialIndex';
+import { canSee, isExploredBy, isVisibleTo, findNearestUnexplored } from './visibility';
+import { findPlacement, PlacementOptions } from './placement';
+import { getPlayerIds, areEnemies } from './players';
+import { standardAI } from './ai';
+
+// --- AI CONTROLLERS ---
+// The contract between the simulation and a bot. A controller is handed a
+// read-only view limited to what its player can see, plus its own memory
+// (kept in GameState so saves and replays carry it), and returns orders.
+// The orders are validated like any player's. The view holds frozen copies,
+// so a bot cannot change the match except through its orders.
+
+export type EntityView = Readonly<GameEntity>;
+
+export interface AIView {
+  readonly player: PlayerId;
+  readonly tick: number;
+  readonly gameTime: number;
+  readonly profile: Readonly<AIProfile>;
+  // Own resources and population
+  readonly self: Readonly<PlayerState>;
+  // Every player in slot order; start positions are public knowledge
+  readonly players: ReadonlyArray<{ id: PlayerId; team: number; defeated: boolean; start: Vector2D }>;
+  // Own and allied entities, enemies in sight and explored resources
+  readonly entities: ReadonlyArray<EntityView>;
+  // Orders this decision may issue before the APM limit drops the rest
+  readonly commandBudget: number;
+  getEntity(id: string | null | undefined): EntityView | null;
+  findNearest(from: Vector2D, predicate: (e: EntityView) => boolean, maxDistance?: number): EntityView | null;
+  queryRadius(center: Vector2D, radius: number, predicate?: (e: EntityView) => boolean): EntityView[];
+  isExplored(p: Vector2D): boolean;
+  isVisible(p: Vector2D): boolean;
+  isEnemy(owner: PlayerId): boolean;
+  findNearestUnexplored(from: Vector2D, home?: Vector2D): Vector2D | null;
+  findPlacement(type: BuildingTypeId, near: Vector2D, maxDistance: number, options?: PlacementOptions): Vector2D | null;
+}
+
+export interface AIController {
+  id: string;
+  name: string;
+  update(view: AIView, memory: AIState): Command[];
+}
+
+export const DEFAULT_AI_CONTROLLER = standardAI.id;
+
+const controllers: Record<string, AIController> = { [standardAI.id]: standardAI };
+
+// Makes a bot selectable in match setups by its id
+export const registerAIController = (controller: AIController) => {
+  controllers[controller.id] = controller;
+};
+
+export const getAIControllers = (): AIController[] => Object.values(controllers);
+
+// Unknown ids (e.g. a save from a build with extra bots) run the standard AI
+export const getAIController = (id: string) => controllers[id] || standardAI;
+
+export const getAIProfile = (memory: AIState) => AI_PROFILES[memory.difficulty];
+
+const getCommandBudget = (profile: AIProfile) => Math.max(1, Math.floor(profile.apm * profile.reactionTime / 60000));
+
+const freezeCopy = <T>(value: T): T => {
+  if (!value || typeof value !== 'object') return value;
+  const copy: any = Array.isArray(value) ? value.map(freezeCopy) : {};
+  if (!Array.isArray(value)) Object.entries(value).forEach(([key, child]) => { copy[key] = freezeCopy(child); });
+  return Object.freeze(copy);
+};
+
+// `memory` defaults to the player's AI state; a headless client playing a
+// human slot passes its own
+export const createAIView = (state: GameState, player: PlayerId, memory: AIState = state.ai[player]): AIView => {
+  const profile = getAIProfile(memory);
+  const visible = (e: GameEntity) => canSee(state, player, e);
+  // One copy per entity and view, so the same entity always compares equal
+  const copies = new Map<string, EntityView>();
+  const copyOf = (e: GameEntity) => {
+    if (!copies.has(e.id)) copies.set(e.id, freezeCopy(e));
+    return copies.get(e.id)!;
+  };
+  return {
+    player,
+    tick: state.tick,
+    gameTime: state.gameTime,
+    profile: freezeCopy(profile),
+    self: freezeCopy(state.players[player]),
+    players: getPlayerIds(state).map((id, i) => ({
+      id, team: state.players[id].team, defeated: state.players[id].defeated, start: START_POSITIONS[i]
+    })),
+    entities: (Object.values(state.entities) as GameEntity[]).filter(visible).map(copyOf),
+    commandBudget: getCommandBudget(profile),
+    getEntity: id => {
+      const e = state.entities[id || ''];
+      return e && visible(e) ? copyOf(e) : null;
+    },
+    findNearest: (from, predicate, maxDistance) => {
+      const e = findNearest(state, from, e => visible(e) && predicate(copyOf(e)), maxDistance);
+      return e ? copyOf(e) : null;
+    },
+    queryRadius: (center, radius, predicate) =>
+      queryRadius(state, center, radius, e => visible(e) && (!predicate || predicate(copyOf(e)))).map(copyOf),
+    isExplored: p => isExploredBy(state, player, p),
+    isVisible: p => isVisibleTo(state, player, p),
+    isEnemy: owner => areEnemies(state, player, owner),
+    findNearestUnexplored: (from, home) => findNearestUnexplored(state, player, from, home),
+    findPlacement: (type, near, maxDistance, options) => findPlacement(state, player, type, near, maxDistance, options),
+  };
+};
+
+// Lets every AI player whose reaction time has elapsed make a decision. Each
+// one's orders, trimmed to its command budget, are submitted before the next
+// player decides.
+export const runAIControllers = (state: GameState, submit: (command: Command) => void) => {
+  Object.keys(state.ai).forEach(player => {
+    const memory = state.ai[player];
+    const profile = getAIProfile(memory);
+    if (state.players[player].defeated || state.gameTime - memory.lastUpdateTime < profile.reactionTime) return;
+    const view = createAIView(state, player);
+    getAIController(memory.controller).update(view, memory).slice(0, view.commandBudget).forEach(submit);
+    memory.lastUpdateTime = state.gameTime;
+  });
+};
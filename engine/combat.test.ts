@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { EntityType, Projectile, UnitType, BuildingType, DamageType, TechType, UnitStance, CommandType } from '../types';
+import { MIN_DAMAGE, SIM_DT } from '../constants';
+import { createInitialState } from './setup';
+import { stepSimulation } from './simulation';
+import { updateVisibility } from './visibility';
+import { completeResearch } from './techs';
+import { getUnitDef, unitHasAbility, UNIT_DEFS } from './definitions';
+import { calculateDamage, getAttackBonus, getArmor, getDamageType } from './combat';
+import { addUnit, addBuilding } from './testUtils';
+
+const SPEARMAN = 'SPEARMAN';
+const SCOUT = 'SCOUT_CAVALRY';
+
+describe('calculateDamage', () => {
+  it('subtracts the armor that matches the damage type', () => {
+    const state = createInitialState(1);
+    const scout = addUnit(state, SCOUT, 'P2');
+    const { meleeArmor, pierceArmor } = getUnitDef(SCOUT).stats;
+    expect(meleeArmor).not.toBe(pierceArmor);
+
+    const militia = getUnitDef(UnitType.Militia).stats.attackDamage;
+    const archer = getUnitDef(UnitType.Archer).stats.attackDamage;
+    expect(calculateDamage(militia, DamageType.Melee, UnitType.Militia, scout)).toBe(militia - meleeArmor);
+    expect(calculateDamage(archer, DamageType.Pierce, UnitType.Archer, scout)).toBe(archer - pierceArmor);
+  });
+
+  it('adds bonuses against the target armor classes', () => {
+    const state = createInitialState(1);
+    const scout = addUnit(state, SCOUT, 'P2');
+    const attack = getUnitDef(SPEARMAN).stats.attackDamage;
+    expect(getAttackBonus(SPEARMAN, scout)).toBe(12);
+    expect(calculateDamage(attack, DamageType.Melee, SPEARMAN, scout)).toBe(attack + 12 - scout.meleeArmor);
+  });
+
+  it('applies negative bonuses, such as peasants against buildings', () => {
+    const state = createInitialState(1);
+    const house = addBuilding(state, BuildingType.House, 'P2');
+    expect(getAttackBonus(UnitType.Peasant, house)).toBe(-1);
+    expect(calculateDamage(20, DamageType.Melee, UnitType.Peasant, house)).toBe(20 - 1 - getArmor(house, DamageType.Melee));
+  });
+
+  it('never does less than MIN_DAMAGE', () => {
+    const state = createInitialState(1);
+    const townCenter = addBuilding(state, BuildingType.TownCenter, 'P2');
+    const attack = getUnitDef(UnitType.Archer).stats.attackDamage;
+    expect(attack - getArmor(townCenter, DamageType.Pierce)).toBeLessThan(MIN_DAMAGE);
+    expect(calculateDamage(attack, DamageType.Pierce, UnitType.Archer, townCenter)).toBe(MIN_DAMAGE);
+    expect(calculateDamage(0, DamageType.Melee, UnitType.Peasant, townCenter)).toBe(MIN_DAMAGE);
+  });
+
+  it('uses armor raised by research, for living and later units', () => {
+    const state = createInitialState(1);
+    const before = addUnit(state, UnitType.Militia, 'P2');
+    const base = calculateDamage(10, DamageType.Melee, UnitType.Militia, before);
+
+    completeResearch(state, 'P2', TechType.ScaleMail);
+    const after = addUnit(state, UnitType.Militia, 'P2');
+    expect(getArmor(before, DamageType.Melee)).toBe(getUnitDef(UnitType.Militia).stats.meleeArmor + 1);
+    expect(calculateDamage(10, DamageType.Melee, UnitType.Militia, before)).toBe(base - 1);
+    expect(calculateDamage(10, DamageType.Melee, UnitType.Militia, after)).toBe(base - 1);
+  });
+
+  it('raises armor for every soldier type', () => {
+    const state = createInitialState(1);
+    completeResearch(state, 'P2', TechType.ScaleMail);
+    completeResearch(state, 'P2', TechType.ChainMail);
+    Object.keys(UNIT_DEFS).filter(type => !unitHasAbility(type, 'gather')).forEach(type => {
+      const { meleeArmor, pierceArmor } = getUnitDef(type).stats;
+      const unit = addUnit(state, type, 'P2');
+      expect([type, unit.meleeArmor, unit.pierceArmor]).toEqual([type, meleeArmor + 1, pierceArmor + 1]);
+    });
+  });
+});
+
+describe('projectiles', () => {
+  it('carry the damage type of the unit that fired them', () => {
+    const state = createInitialState(1);
+    const archer = addUnit(state, UnitType.Archer, 'P1', { x: 1000, y: 1000 });
+    const target = addUnit(state, UnitType.Militia, 'P2', { x: 1100, y: 1000 });
+    target.stance = UnitStance.NoAttack;
+    updateVisibility(state);
+    stepSimulation(state, [{ type: CommandType.Attack, player: 'P1', unitIds: [archer.id], targetId: target.id }], SIM_DT);
+
+    let arrow: Projectile | undefined;
+    for (let i = 0; i < 300 && !arrow; i++) {
+      stepSimulation(state, [], SIM_DT);
+      arrow = Object.values(state.entities).find(e => e.entityType === EntityType.Projectile) as Projectile | undefined;
+    }
+    expect(arrow).toBeDefined();
+    expect(arrow!.damageType).toBe(getDamageType(UnitType.Archer));
+    expect(arrow!.damageType).toBe(DamageType.Pierce);
+    expect(arrow!.sourceType).toBe(UnitType.Archer);
+
+    const hp = target.hp;
+    for (let i = 0; i < 300 && state.entities[arrow!.id]; i++) stepSimulation(state, [], SIM_DT);
+    expect(hp - target.hp).toBe(calculateDamage(archer.attackDamage, DamageType.Pierce, UnitType.Archer, target));
+  });
+});
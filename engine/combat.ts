@@ -0,0 +1,34 @@
+import { GameEntity, EntityType, Unit, Building, UnitTypeId, BuildingTypeId, DamageType } from '../types';
+import { MIN_DAMAGE } from '../constants';
+import { getUnitDef, getBuildingDef, getBonuses, unitHasAbility } from './definitions';
+
+// --- COMBAT ---
+// A hit does the attacker's attack, plus its bonuses against each of the
+// target's armor classes, minus the target's armor against the damage type,
+// and never less than MIN_DAMAGE. Ranged units and towers fire pierce damage,
+// everyone else hits in melee.
+
+export const getDamageType = (type: UnitTypeId) => unitHasAbility(type, 'ranged') ? DamageType.Pierce : DamageType.Melee;
+
+// Units carry their armor like their other stats; buildings use their definition
+export const getArmor = (target: GameEntity, damageType: DamageType) => {
+  const key = damageType === DamageType.Melee ? 'meleeArmor' : 'pierceArmor';
+  if (target.entityType === EntityType.Unit) return (target as Unit)[key];
+  if (target.entityType === EntityType.Building) return getBuildingDef((target as Building).buildingType).stats[key];
+  return 0;
+};
+
+export const getArmorClasses = (target: GameEntity): string[] => {
+  if (target.entityType === EntityType.Unit) return getUnitDef((target as Unit).unitType).armorClasses;
+  if (target.entityType === EntityType.Building) return getBuildingDef((target as Building).buildingType).armorClasses;
+  return [];
+};
+
+export const getAttackBonus = (attacker: UnitTypeId | BuildingTypeId, target: GameEntity) => {
+  const bonuses = getBonuses(attacker);
+  return getArmorClasses(target).reduce((sum, armorClass) => sum + (bonuses[armorClass] || 0), 0);
+};
+
+export const calculateDamage = (attack: number, damageType: DamageType, attacker: UnitTypeId | BuildingTypeId, target: GameEntity) => {
+  return Math.max(MIN_DAMAGE, attack + getAttackBonus(attacker, target) - getArmor(target, damageType));
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { UnitType, BuildingType, CommandType, Command } from '../types';
+import { SIM_DT } from '../constants';
+import { createInitialState } from './setup';
+import { stepSimulation } from './simulation';
+import { applyCommand, validateCommand } from './commands';
+import { addUnit, addBuilding } from './testUtils';
+
+describe('validateCommand', () => {
+  it('rejects commands of an unknown type without touching the units', () => {
+    const state = createInitialState(1);
+    const militia = addUnit(state, UnitType.Militia, 'P1');
+    militia.patrolRoute = [{ x: 900, y: 1000 }, { x: 1100, y: 1000 }];
+    const command = { type: 'SELF_DESTRUCT', player: 'P1', unitIds: [militia.id] } as unknown as Command;
+
+    expect(validateCommand(state, command)).toBe('Unknown command');
+    expect(applyCommand(state, command)).toBe('Unknown command');
+    expect(militia.patrolRoute).not.toBeNull();
+  });
+});
+
+describe('build orders', () => {
+  it('repair a damaged building, then leave the builders idle', () => {
+    const state = createInitialState(1);
+    const house = addBuilding(state, BuildingType.House, 'P1');
+    const peasant = addUnit(state, UnitType.Peasant, 'P1', { x: 1000, y: 1000 + house.radius + 10 });
+    house.hp = house.maxHp / 2;
+
+    stepSimulation(state, [{ type: CommandType.Build, player: 'P1', unitIds: [peasant.id], targetId: house.id }], SIM_DT);
+    expect(peasant.state).toBe('BUILDING');
+    for (let i = 0; i < 3000 && peasant.state === 'BUILDING'; i++) stepSimulation(state, [], SIM_DT);
+    expect(house.hp).toBe(house.maxHp);
+    expect(peasant.state).toBe('IDLE');
+    expect(validateCommand(state, { type: CommandType.Build, player: 'P1', unitIds: [peasant.id], targetId: house.id })).toBe('Nothing to build or repair');
+  });
+});
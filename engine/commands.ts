@@ -0,0 +1,421 @@
+import {
+  GameState,
+  PlayerId,
+  NEUTRAL,
+  EntityType,
+  UnitAbility,
+  BuildingTypeId,
+  Unit,
+  Building,
+  Command,
+  CommandType,
+  BuildCommand,
+  ResourceCost,
+  Vector2D,
+  FormationType,
+  UnitStance,
+} from '../types';
+import { TECHS, FARM_RESEED_COST, MAX_PRODUCTION_QUEUE, MAX_PATROL_WAYPOINTS } from '../constants';
+import { generateId } from './utils';
+import { snapToWalkable } from './navigation';
+import { isVisibleTo } from './visibility';
+import { isDropOffFor, startReturning } from './gathering';
+import { validatePlacement, getWallLine, getWallSpots } from './placement';
+import { areEnemies } from './players';
+import { getFarmCapacity, getResearchBlocker } from './techs';
+import { getShortfall, spendResources, refundResources, getResourceName, canAfford } from './resources';
+import { getProductionCost } from './production';
+import { getFormationPlan } from './formations';
+import { getUnitDef, getBuildingDef, isBuildingType, unitHasAbility, buildingHasAbility, getTrainableUnits } from './definitions';
+
+// --- HELPERS ---
+
+// Units named by the command that exist, are units and belong to the issuer.
+// Anything else in the list is silently dropped (it may have died since).
+const getOwnedUnits = (state: GameState, player: PlayerId, unitIds: string[]) => {
+  return unitIds
+    .map(id => state.entities[id])
+    .filter(e => e && e.entityType === EntityType.Unit && e.owner === player) as Unit[];
+};
+
+// Owned units whose definition grants `ability`, e.g. the gatherers of a selection
+const getOwnedUnitsWith = (state: GameState, player: PlayerId, unitIds: string[], ability: UnitAbility) => {
+  return getOwnedUnits(state, player, unitIds).filter(u => unitHasAbility(u.unitType, ability));
+};
+
+const getMissingResource = (state: GameState, player: PlayerId, cost: ResourceCost) => {
+  const shortfall = getShortfall(state.players[player].resources, cost);
+  return shortfall ? `Not enough ${getResourceName(shortfall)}` : null;
+};
+
+// A finished, owned building with room in its queue
+const getProducer = (state: GameState, player: PlayerId, buildingId: string): Building | string => {
+  const b = state.entities[buildingId] as Building | undefined;
+  if (!b || b.entityType !== EntityType.Building) return 'Building no longer exists';
+  if (b.owner !== player) return 'You do not own that building';
+  if (!b.isBuilt) return 'Building is not finished';
+  if (b.productionQueue.length >= MAX_PRODUCTION_QUEUE) return 'Production queue is full';
+  return b;
+};
+
+// Positions come from the client or over the wire and end up in the
+// simulation, so NaN or Infinity must not get through
+const isFiniteVector = (v: unknown): v is Vector2D =>
+  !!v && typeof v === 'object' && Number.isFinite((v as Vector2D).x) && Number.isFinite((v as Vector2D).y);
+
+const isFarm = (b: Building) => buildingHasAbility(b.buildingType, 'farm');
+
+const isDepletedFarm = (b: Building) => isFarm(b) && b.isBuilt && (b.resourceAmount || 0) <= 0;
+
+const createBuilding = (state: GameState, type: BuildingTypeId, owner: PlayerId, position: Vector2D): Building => {
+  const { hp, radius } = getBuildingDef(type).stats;
+  const building: Building = {
+    id: generateId(state), entityType: EntityType.Building, buildingType: type, owner,
+    position: { ...position }, hp: 1, maxHp: hp, radius,
+    constructionProgress: 0, isBuilt: false, productionQueue: []
+  };
+
+  if (isFarm(building)) {
+    building.resourceAmount = getFarmCapacity(state, owner);
+    building.maxResourceAmount = building.resourceAmount;
+    building.lastGenerationTime = 0;
+  }
+  state.navVersion++;
+  return building;
+};
+
+// --- VALIDATION ---
+
+const validateBuild = (state: GameState, command: BuildCommand): string | null => {
+  const builders = getOwnedUnitsWith(state, command.player, command.unitIds, 'build');
+  if (command.unitIds.length > 0 && builders.length === 0) return 'Those units cannot build';
+
+  if (command.targetId) {
+    const target = state.entities[command.targetId];
+    if (!target || target.entityType !== EntityType.Building) return 'Target is not a building';
+    if (target.owner !== command.player) return 'You do not own that building';
+    const b = target as Building;
+    if (b.isBuilt && b.hp >= b.maxHp) return 'Nothing to build or repair';
+    return null;
+  }
+
+  if (!command.buildingType || !command.position) return 'No building to place';
+  if (!isFiniteVector(command.position) || (command.lineTo && !isFiniteVector(command.lineTo))) return 'Invalid position';
+  if (!isBuildingType(command.buildingType)) return 'Unknown building';
+  const def = getBuildingDef(command.buildingType);
+  if (command.unitIds.length > 0 && !builders.some(u => def.producedBy.includes(u.unitType))) {
+    return `Those units cannot build a ${def.name}`;
+  }
+  if (command.lineTo) {
+    if (!def.abilities.includes('wall')) return `A ${def.name} cannot be placed in a line`;
+    // Blocked spots are skipped; the order only fails when none is left
+    if (getWallSpots(state, command.player, command.buildingType, command.position, command.lineTo).length === 0) {
+      return validatePlacement(state, command.player, command.buildingType, getWallLine(command.position, command.lineTo)[0]) || 'Something is in the way';
+    }
+  } else {
+    const placement = validatePlacement(state, command.player, command.buildingType, command.position);
+    if (placement) return placement;
+  }
+  return getMissingResource(state, command.player, def.cost);
+};
+
+// Returns a human readable reason if the command may not be applied, null otherwise
+export const validateCommand = (state: GameState, command: Command): string | null => {
+  if (state.gameOver) return 'The game is over';
+  if (!state.players[command.player]) return 'Unknown player';
+  if ('unitIds' in command && !Array.isArray(command.unitIds)) return 'No units of yours selected';
+
+  switch (command.type) {
+    case CommandType.Move:
+    case CommandType.AttackMove:
+      if (!isFiniteVector(command.target)) return 'Invalid position';
+      if (command.formation && !Object.values(FormationType).includes(command.formation)) return 'Unknown formation';
+      return getOwnedUnits(state, command.player, command.unitIds).length > 0 ? null : 'No units of yours selected';
+
+    case CommandType.Stop:
+      return getOwnedUnits(state, command.player, command.unitIds).length > 0 ? null : 'No units of yours selected';
+
+    case CommandType.Attack: {
+      if (getOwnedUnits(state, command.player, command.unitIds).length === 0) return 'No units of yours selected';
+      const target = state.entities[command.targetId];
+      if (!target) return 'Target no longer exists';
+      if (target.entityType === EntityType.Resource || target.owner === NEUTRAL) return 'Cannot attack that';
+      if (target.owner === command.player) return 'Cannot attack your own units';
+      if (!areEnemies(state, command.player, target.owner)) return 'Cannot attack an ally';
+      if (!isVisibleTo(state, command.player, target.position)) return 'Target is not visible';
+      return null;
+    }
+
+    case CommandType.Gather: {
+      if (getOwnedUnitsWith(state, command.player, command.unitIds, 'gather').length === 0) return 'Those units cannot gather';
+      const target = state.entities[command.targetId];
+      if (!target) return 'Target no longer exists';
+      if (target.entityType === EntityType.Resource) return null;
+      if (target.entityType === EntityType.Building && target.owner === command.player) {
+        const b = target as Building;
+        if (!isFarm(b)) {
+          // Gathering on a drop-off means "bring your load here"
+          const carriers = getOwnedUnitsWith(state, command.player, command.unitIds, 'gather').filter(u => u.carriedResources > 0);
+          if (carriers.length === 0) return 'Cannot gather from that';
+          if (!carriers.some(u => isDropOffFor(b, command.player, u.gatherType!))) return 'Cannot drop off that resource here';
+          return null;
+        }
+        if (!b.isBuilt) return 'Farm is not finished';
+        if (isDepletedFarm(b)) return 'Farm is depleted, reseed it first';
+        return null;
+      }
+      return 'Cannot gather from that';
+    }
+
+    case CommandType.Build:
+      return validateBuild(state, command);
+
+    // Units queued past the population cap are accepted; production waits for room
+    case CommandType.Train: {
+      const b = getProducer(state, command.player, command.buildingId);
+      if (typeof b === 'string') return b;
+      if (!getTrainableUnits(b.buildingType).includes(command.unitType)) return 'Cannot train that here';
+      return getMissingResource(state, command.player, getUnitDef(command.unitType).cost);
+    }
+
+    case CommandType.Research: {
+      const b = getProducer(state, command.player, command.buildingId);
+      if (typeof b === 'string') return b;
+      if (!TECHS[command.tech]) return 'Unknown technology';
+      return getResearchBlocker(state, command.player, b, command.tech) ||
+        getMissingResource(state, command.player, TECHS[command.tech].cost);
+    }
+
+    case CommandType.Reseed: {
+      const b = state.entities[command.buildingId] as Building | undefined;
+      if (!b || b.entityType !== EntityType.Building || !isFarm(b)) return 'Not a farm';
+      if (b.owner !== command.player) return 'You do not own that farm';
+      if (!isDepletedFarm(b)) return 'Farm does not need reseeding';
+      return getMissingResource(state, command.player, FARM_RESEED_COST);
+    }
+
+    case CommandType.CancelProduction: {
+      const b = state.entities[command.buildingId] as Building | undefined;
+      if (!b || b.entityType !== EntityType.Building) return 'Building no longer exists';
+      if (b.owner !== command.player) return 'You do not own that building';
+      if (!Number.isInteger(command.index) || !b.productionQueue[command.index]) return 'Nothing to cancel';
+      return null;
+    }
+
+    case CommandType.SetRallyPoint: {
+      const b = state.entities[command.buildingId] as Building | undefined;
+      if (!b || b.entityType !== EntityType.Building) return 'Building no longer exists';
+      if (b.owner !== command.player) return 'You do not own that building';
+      if (getTrainableUnits(b.buildingType).length === 0) return 'That building trains no units';
+      if (command.targetId) {
+        const target = state.entities[command.targetId];
+        if (!target) return 'Target no longer exists';
+        if (!isVisibleTo(state, command.player, target.position)) return 'Target is not visible';
+      } else if (!isFiniteVector(command.position)) {
+        return 'Invalid position';
+      }
+      return null;
+    }
+
+    case CommandType.Patrol:
+      if (getOwnedUnits(state, command.player, command.unitIds).length === 0) return 'No units of yours selected';
+      if (!Array.isArray(command.waypoints) || command.waypoints.length < 2) return 'A patrol needs at least two points';
+      if (command.waypoints.length > MAX_PATROL_WAYPOINTS) return `A patrol can have at most ${MAX_PATROL_WAYPOINTS} points`;
+      if (!command.waypoints.every(isFiniteVector)) return 'Invalid position';
+      return null;
+
+    case CommandType.Guard: {
+      const units = getOwnedUnits(state, command.player, command.unitIds).filter(u => u.id !== command.targetId);
+      if (units.length === 0) return 'No units of yours selected';
+      const target = state.entities[command.targetId];
+      if (!target) return 'Target no longer exists';
+      if ((target.entityType !== EntityType.Unit && target.entityType !== EntityType.Building) ||
+        target.owner === NEUTRAL || areEnemies(state, command.player, target.owner)) {
+        return 'Only friendly units and buildings can be guarded';
+      }
+      return null;
+    }
+
+    case CommandType.SetStance:
+      if (!Object.values(UnitStance).includes(command.stance)) return 'Unknown stance';
+      return getOwnedUnits(state, command.player, command.unitIds).length > 0 ? null : 'No units of yours selected';
+
+    default:
+      return 'Unknown command';
+  }
+};
+
+// --- EXECUTION ---
+
+const executeCommand = (state: GameState, command: Command) => {
+  // Any new order breaks formation and ends a patrol or guard duty; a
+  // stance change is not an order
+  if ('unitIds' in command && command.type !== CommandType.SetStance) {
+    getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+      unit.formationSpeed = null;
+      unit.facing = null;
+      unit.patrolRoute = null;
+      unit.guardId = null;
+      unit.leashOrigin = null;
+    });
+  }
+
+  switch (command.type) {
+    case CommandType.Move:
+    case CommandType.AttackMove: {
+      const units = getOwnedUnits(state, command.player, command.unitIds);
+      const target = snapToWalkable(state, command.target);
+      const plan = command.formation && units.length > 1 ? getFormationPlan(state, units, command.target, command.formation) : null;
+      units.forEach(unit => {
+        unit.moveTarget = plan ? plan.slots[unit.id] : { ...target };
+        unit.state = command.type === CommandType.Move ? 'MOVING' : 'ATTACK_MOVING';
+        unit.targetId = null;
+        if (plan) {
+          unit.formationSpeed = plan.speed;
+          unit.facing = plan.facing;
+        }
+      });
+      break;
+    }
+
+    case CommandType.Attack:
+      getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+        if (unit.id === command.targetId) return;
+        unit.targetId = command.targetId;
+        unit.state = 'ATTACKING';
+        unit.moveTarget = null;
+      });
+      break;
+
+    case CommandType.Gather: {
+      const target = state.entities[command.targetId];
+      const toDropOff = target.entityType === EntityType.Building && !isFarm(target as Building);
+      getOwnedUnitsWith(state, command.player, command.unitIds, 'gather').forEach(unit => {
+        if (toDropOff) {
+          // Drop-off order: only units carrying something it accepts go there
+          if (unit.gatherType && unit.carriedResources > 0 && isDropOffFor(target, command.player, unit.gatherType) && startReturning(state, unit)) {
+            unit.targetId = target.id;
+          }
+          return;
+        }
+        unit.targetId = command.targetId;
+        unit.gatherTargetId = command.targetId;
+        unit.state = 'GATHERING';
+        unit.moveTarget = null;
+      });
+      break;
+    }
+
+    case CommandType.Build: {
+      let targetId = command.targetId;
+      if (!targetId && command.buildingType && command.position) {
+        const type = command.buildingType;
+        const cost = getBuildingDef(type).cost;
+        const resources = state.players[command.player].resources;
+        // A wall line lays as many segments as the player can pay for, starting at the near end
+        const spots = command.lineTo ? getWallSpots(state, command.player, type, command.position, command.lineTo) : [command.position];
+        for (const spot of spots) {
+          if (!canAfford(resources, cost)) break;
+          spendResources(resources, cost);
+          const building = createBuilding(state, type, command.player, spot);
+          state.entities[building.id] = building;
+          targetId = targetId || building.id;
+        }
+      }
+      getOwnedUnitsWith(state, command.player, command.unitIds, 'build').forEach(unit => {
+        unit.targetId = targetId || null;
+        unit.state = 'BUILDING';
+        unit.moveTarget = null;
+      });
+      break;
+    }
+
+    case CommandType.Train: {
+      const b = state.entities[command.buildingId] as Building;
+      const cost = getUnitDef(command.unitType).cost;
+      spendResources(state.players[command.player].resources, cost);
+      b.productionQueue.push({ unitType: command.unitType, timeLeft: cost.time * 1000 });
+      break;
+    }
+
+    case CommandType.Research: {
+      const b = state.entities[command.buildingId] as Building;
+      const cost = TECHS[command.tech].cost;
+      spendResources(state.players[command.player].resources, cost);
+      b.productionQueue.push({ tech: command.tech, timeLeft: cost.time * 1000 });
+      break;
+    }
+
+    case CommandType.Stop:
+      getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+        unit.state = 'IDLE';
+        unit.targetId = null;
+        unit.moveTarget = null;
+      });
+      break;
+
+    case CommandType.CancelProduction: {
+      const b = state.entities[command.buildingId] as Building;
+      const [item] = b.productionQueue.splice(command.index, 1);
+      refundResources(state.players[command.player].resources, getProductionCost(item));
+      break;
+    }
+
+    case CommandType.SetRallyPoint: {
+      const b = state.entities[command.buildingId] as Building;
+      const target = command.targetId ? state.entities[command.targetId] : undefined;
+      b.rallyPoint = { position: target ? { ...target.position } : { ...command.position }, targetId: target ? target.id : null };
+      break;
+    }
+
+    case CommandType.Reseed: {
+      const b = state.entities[command.buildingId] as Building;
+      spendResources(state.players[command.player].resources, FARM_RESEED_COST);
+      b.resourceAmount = b.maxResourceAmount = getFarmCapacity(state, command.player);
+      getOwnedUnitsWith(state, command.player, command.unitIds, 'gather').forEach(unit => {
+        unit.targetId = b.id;
+        unit.state = 'GATHERING';
+        unit.moveTarget = null;
+      });
+      break;
+    }
+
+    case CommandType.Patrol: {
+      const route = command.waypoints.map(p => snapToWalkable(state, p));
+      getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+        unit.patrolRoute = route.map(p => ({ ...p }));
+        unit.patrolIndex = 0;
+        unit.moveTarget = { ...route[0] };
+        unit.state = 'ATTACK_MOVING';
+        unit.targetId = null;
+      });
+      break;
+    }
+
+    case CommandType.Guard:
+      // Guard duty itself (following, fighting, coming back) runs in the simulation
+      getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+        if (unit.id === command.targetId) return;
+        unit.guardId = command.targetId;
+        unit.state = 'IDLE';
+        unit.targetId = null;
+        unit.moveTarget = null;
+      });
+      break;
+
+    case CommandType.SetStance:
+      getOwnedUnits(state, command.player, command.unitIds).forEach(unit => {
+        unit.stance = command.stance;
+      });
+      break;
+  }
+};
+
+// The only way player and AI orders reach the simulation.
+// Returns the rejection reason, or null when the command was applied.
+export const applyCommand = (state: GameState, command: Command): string | null => {
+  const reason = validateCommand(state, command);
+  if (reason) return reason;
+  executeCommand(state, command);
+  return null;
+};
@@ -0,0 +1,196 @@
+import {
+  UnitType,
+  BuildingType,
+  UnitTypeId,
+  BuildingTypeId,
+  UnitDefinition,
+  BuildingDefinition,
+  UnitAbility,
+  BuildingAbility,
+  MeshPart,
+  ResourceType,
+  ProductionCost,
+} from '../types';
+import units from '../data/units.json';
+import buildings from '../data/buildings.json';
+
+// --- UNIT & BUILDING DEFINITIONS ---
+// Stats, costs, who produces what, abilities and models live in
+// data/units.json and data/buildings.json, keyed by type id. Adding an entry
+// there is enough for the engine, the HUD and the renderer to pick it up.
+// The files are checked when this module loads, like the AI strategies.
+
+const UNIT_ABILITIES: UnitAbility[] = ['gather', 'build', 'ranged'];
+const BUILDING_ABILITIES: BuildingAbility[] = ['farm', 'capital', 'attack', 'wall', 'gate'];
+const SHAPES = ['box', 'sphere', 'cylinder', 'cone', 'plane'];
+const COLOR = /^(team|roof|#[0-9a-fA-F]{6})$/;
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isPositive = (v: unknown): v is number => isNumber(v) && v > 0;
+const isVector = (v: unknown): v is [number, number, number] =>
+  Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const parseCost = (where: string, data: any): ProductionCost => {
+  if (!data || typeof data !== 'object') throw new Error(`${where}: "cost" must be an object`);
+  if (!isNumber(data.time)) throw new Error(`${where}: "cost.time" must be a non-negative number (seconds)`);
+  const cost: ProductionCost = { time: data.time };
+  Object.entries(data).forEach(([type, amount]) => {
+    if (type === 'time') return;
+    if (!Object.values(ResourceType).includes(type as ResourceType)) throw new Error(`${where}: unknown resource "${type}" in "cost"`);
+    if (!isNumber(amount)) throw new Error(`${where}: "cost.${type}" must be a non-negative number`);
+    cost[type as ResourceType] = amount;
+  });
+  return cost;
+};
+
+// Reads the listed stats; those in `positive` must also be above zero
+const parseStats = <K extends string>(where: string, data: any, keys: K[], positive: K[]): Record<K, number> => {
+  if (!data || typeof data !== 'object') throw new Error(`${where}: "stats" must be an object`);
+  const stats = {} as Record<K, number>;
+  keys.forEach(key => {
+    if (positive.includes(key) ? !isPositive(data[key]) : !isNumber(data[key])) {
+      throw new Error(`${where}: "stats.${key}" must be a ${positive.includes(key) ? 'positive' : 'non-negative'} number`);
+    }
+    stats[key] = data[key];
+  });
+  return stats;
+};
+
+const parseList = <T extends string>(where: string, field: string, data: any, allowed?: T[]): T[] => {
+  if (!Array.isArray(data) || data.some(v => typeof v !== 'string')) throw new Error(`${where}: "${field}" must be a list of names`);
+  const unknown = allowed && data.find(v => !allowed.includes(v));
+  if (unknown) throw new Error(`${where}: unknown "${unknown}" in "${field}" (expected ${allowed!.join(', ')})`);
+  return data;
+};
+
+// Attack bonuses: armor class to extra damage, negative for a penalty
+const parseBonuses = (where: string, data: any): Record<string, number> => {
+  if (data === undefined) return {};
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error(`${where}: "bonuses" must be an object of armor class to damage`);
+  Object.entries(data).forEach(([armorClass, bonus]) => {
+    if (typeof bonus !== 'number' || !Number.isFinite(bonus)) throw new Error(`${where}: "bonuses.${armorClass}" must be a number`);
+  });
+  return { ...data };
+};
+
+const parseMesh = (where: string, path: string, data: any): MeshPart[] => {
+  if (!Array.isArray(data)) throw new Error(`${where}: "${path}" must be a list of parts`);
+  return data.map((part: any, i: number) => {
+    const at = `${where}, ${path}[${i}]`;
+    if (!part || typeof part !== 'object') throw new Error(`${at}: expected an object`);
+    if (part.shape !== undefined && !SHAPES.includes(part.shape)) throw new Error(`${at}: unknown shape "${part.shape}" (expected ${SHAPES.join(', ')})`);
+    if (part.shape !== undefined && !COLOR.test(part.color)) throw new Error(`${at}: "color" must be "team", "roof" or "#rrggbb"`);
+    if (part.shape === undefined && !Array.isArray(part.parts)) throw new Error(`${at}: needs a "shape" or a list of "parts"`);
+    (['scale', 'position', 'rotation'] as const).forEach(key => {
+      if (part[key] !== undefined && !isVector(part[key])) throw new Error(`${at}: "${key}" must be three numbers`);
+    });
+    if (part.name !== undefined && typeof part.name !== 'string') throw new Error(`${at}: "name" must be a string`);
+    return {
+      ...part,
+      parts: part.parts === undefined ? undefined : parseMesh(where, `${path}[${i}].parts`, part.parts)
+    };
+  });
+};
+
+const parseCommon = (where: string, data: any) => {
+  if (!data || typeof data !== 'object') throw new Error(`${where}: expected an object`);
+  if (typeof data.name !== 'string' || !data.name) throw new Error(`${where}: "name" must be a string`);
+  if (typeof data.icon !== 'string') throw new Error(`${where}: "icon" must be a string`);
+  return {
+    name: data.name as string,
+    icon: data.icon as string,
+    cost: parseCost(where, data.cost),
+    producedBy: parseList<string>(where, 'producedBy', data.producedBy),
+    armorClasses: data.armorClasses === undefined ? [] : parseList<string>(where, 'armorClasses', data.armorClasses),
+    mesh: parseMesh(where, 'mesh', data.mesh),
+  };
+};
+
+export const parseUnitDefinition = (id: string, data: any): UnitDefinition => {
+  const where = `Unit "${id}"`;
+  return {
+    id,
+    ...parseCommon(where, data),
+    abilities: parseList(where, 'abilities', data.abilities, UNIT_ABILITIES),
+    stats: parseStats(where, data.stats,
+      ['hp', 'attackDamage', 'attackRange', 'moveSpeed', 'attackCooldown', 'radius', 'sightRadius', 'meleeArmor', 'pierceArmor'], ['hp', 'radius']),
+    bonuses: parseBonuses(where, data.bonuses),
+  };
+};
+
+export const parseBuildingDefinition = (id: string, data: any): BuildingDefinition => {
+  const where = `Building "${id}"`;
+  const common = parseCommon(where, data);
+  const abilities = parseList(where, 'abilities', data.abilities, BUILDING_ABILITIES);
+  const stats = parseStats(where, data.stats, ['hp', 'radius', 'sightRadius', 'meleeArmor', 'pierceArmor'], ['hp', 'radius']);
+  const population = data.stats.population ?? 0;
+  if (!isNumber(population)) throw new Error(`${where}: "stats.population" must be a non-negative number`);
+  // Towers shoot like an archer does
+  const attack = abilities.includes('attack')
+    ? parseStats(where, data.stats, ['attackDamage', 'attackRange', 'attackCooldown'], ['attackRange', 'attackCooldown'])
+    : {};
+  return {
+    id,
+    ...common,
+    abilities,
+    dropOff: data.dropOff === undefined ? [] : parseList(where, 'dropOff', data.dropOff, Object.values(ResourceType)),
+    stats: { ...stats, ...attack, population },
+    bonuses: parseBonuses(where, data.bonuses),
+  };
+};
+
+// Parses both files and checks the references between them: what produces
+// what must exist, and so must the built-in types the setup and AI name.
+export const parseDefinitions = (unitData: any, buildingData: any) => {
+  if (!unitData || typeof unitData !== 'object') throw new Error('Units: expected an object of unit definitions');
+  if (!buildingData || typeof buildingData !== 'object') throw new Error('Buildings: expected an object of building definitions');
+  const unitDefs: Record<UnitTypeId, UnitDefinition> = {};
+  const buildingDefs: Record<BuildingTypeId, BuildingDefinition> = {};
+  Object.entries(unitData).forEach(([id, data]) => { unitDefs[id] = parseUnitDefinition(id, data); });
+  Object.entries(buildingData).forEach(([id, data]) => {
+    // Projectiles name their shooter by type id alone, so the two files share one namespace
+    if (unitDefs[id]) throw new Error(`Building "${id}": the id is already used by a unit`);
+    buildingDefs[id] = parseBuildingDefinition(id, data);
+  });
+
+  Object.values(unitDefs).forEach(def => def.producedBy.forEach(b => {
+    if (!buildingDefs[b]) throw new Error(`Unit "${def.id}": "producedBy" names unknown building "${b}"`);
+  }));
+  Object.values(buildingDefs).forEach(def => def.producedBy.forEach(u => {
+    if (!unitDefs[u]) throw new Error(`Building "${def.id}": "producedBy" names unknown unit "${u}"`);
+  }));
+  Object.values(UnitType).forEach(id => {
+    if (!unitDefs[id]) throw new Error(`Unit "${id}" is missing; the game setup and AI rely on it`);
+  });
+  Object.values(BuildingType).forEach(id => {
+    if (!buildingDefs[id]) throw new Error(`Building "${id}" is missing; the game setup and AI rely on it`);
+  });
+  return { unitDefs, buildingDefs };
+};
+
+const { unitDefs, buildingDefs } = parseDefinitions(units, buildings);
+
+// In file order, which is also the order of the HUD buttons
+export const UNIT_DEFS: Record<UnitTypeId, UnitDefinition> = unitDefs;
+export const BUILDING_DEFS: Record<BuildingTypeId, BuildingDefinition> = buildingDefs;
+
+export const isUnitType = (id: string) => Object.prototype.hasOwnProperty.call(UNIT_DEFS, id);
+export const isBuildingType = (id: string) => Object.prototype.hasOwnProperty.call(BUILDING_DEFS, id);
+
+export const getUnitDef = (type: UnitTypeId) => UNIT_DEFS[type];
+export const getBuildingDef = (type: BuildingTypeId) => BUILDING_DEFS[type];
+
+export const unitHasAbility = (type: UnitTypeId, ability: UnitAbility) => !!UNIT_DEFS[type]?.abilities.includes(ability);
+export const buildingHasAbility = (type: BuildingTypeId, ability: BuildingAbility) => !!BUILDING_DEFS[type]?.abilities.includes(ability);
+
+// Attack bonuses of a unit or building type, e.g. the shooter of a projectile
+export const getBonuses = (type: UnitTypeId | BuildingTypeId) => (UNIT_DEFS[type] || BUILDING_DEFS[type])?.bonuses || {};
+
+// Units a building trains, and buildings a unit can construct
+export const getTrainableUnits = (building: BuildingTypeId) =>
+  Object.values(UNIT_DEFS).filter(def => def.producedBy.includes(building)).map(def => def.id);
+export const getBuildableBuildings = (unit: UnitTypeId) =>
+  Object.values(BUILDING_DEFS).filter(def => def.producedBy.includes(unit)).map(def => def.id);
+
+// Largest unit footprint, so neighbour queries can pad their radius
+export const MAX_UNIT_RADIUS = Math.max(...Object.values(UNIT_DEFS).map(def => def.stats.radius));
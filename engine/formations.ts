@@ -0,0 +1,54 @@
+import { GameState, Unit, Vector2D, FormationType, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { FORMATION_GAP, FORMATION_MAX_WIDTH } from '../constants';
+import { unitHasAbility } from './definitions';
+import { snapToWalkable } from './navigation';
+
+// --- FORMATIONS ---
+// Slots for a group order. The formation faces the way the group travels,
+// from its centre to the target: melee units form the front rows and ranged
+// units the rows behind them. Staggered rows are looser and shifted by half
+// a slot so every other row covers the gaps of the one in front.
+
+export interface FormationPlan {
+  slots: Record<string, Vector2D>;
+  facing: number; // Radians, the direction of travel
+  speed: number; // Of the slowest member
+}
+
+export const getFormationPlan = (state: GameState, units: Unit[], target: Vector2D, formation: FormationType): FormationPlan => {
+  const center = units.reduce((acc, u) => ({ x: acc.x + u.position.x / units.length, y: acc.y + u.position.y / units.length }), { x: 0, y: 0 });
+  const length = Math.hypot(target.x - center.x, target.y - center.y);
+  // A group ordered onto its own spot keeps facing north
+  const dir = length > 1 ? { x: (target.x - center.x) / length, y: (target.y - center.y) / length } : { x: 0, y: -1 };
+  const right = { x: -dir.y, y: dir.x };
+  const ahead = (u: Unit) => u.position.x * dir.x + u.position.y * dir.y;
+  const across = (u: Unit) => u.position.x * right.x + u.position.y * right.y;
+
+  const spacing = (Math.max(...units.map(u => u.radius)) * 2 + FORMATION_GAP) * (formation === FormationType.Staggered ? 1.5 : 1);
+  const width = formation === FormationType.Box ? Math.ceil(Math.sqrt(units.length)) : FORMATION_MAX_WIDTH;
+
+  // Front to back. Whoever is furthest ahead takes the front row, and each
+  // row is filled left to right in the order the units stand, so paths
+  // rarely cross on the way.
+  const rows: Unit[][] = [];
+  const isRanged = (u: Unit) => unitHasAbility(u.unitType, 'ranged');
+  [units.filter(u => !isRanged(u)), units.filter(isRanged)].forEach(block => {
+    const sorted = [...block].sort((a, b) => ahead(b) - ahead(a));
+    for (let i = 0; i < sorted.length; i += width) rows.push(sorted.slice(i, i + width));
+  });
+
+  const slots: Record<string, Vector2D> = {};
+  rows.forEach((row, r) => {
+    const forward = ((rows.length - 1) / 2 - r) * spacing;
+    const shift = formation === FormationType.Staggered && r % 2 === 1 ? spacing / 2 : 0;
+    [...row].sort((a, b) => across(a) - across(b)).forEach((unit, i) => {
+      const side = (i - (row.length - 1) / 2) * spacing + shift;
+      slots[unit.id] = snapToWalkable(state, {
+        x: Math.max(0, Math.min(MAP_WIDTH, target.x + dir.x * forward + right.x * side)),
+        y: Math.max(0, Math.min(MAP_HEIGHT, target.y + dir.y * forward + right.y * side))
+      });
+    });
+  });
+
+  return { slots, facing: Math.atan2(dir.y, dir.x), speed: Math.min(...units.map(u => u.moveSpeed)) };
+};
@@ -0,0 +1,92 @@
+import {
+  GameState,
+  PlayerId,
+  EntityType,
+  Unit,
+  Building,
+  GameEntity,
+  ResourceType,
+  Resource,
+  Vector2D,
+} from '../types';
+import { GATHER_SEARCH_RADIUS } from '../constants';
+import { getBuildingDef, buildingHasAbility } from './definitions';
+import { findNearest } from './spatialIndex';
+import { isExploredBy } from './visibility';
+
+// --- GATHERING LOGISTICS ---
+// Peasants fill up at a node (resource or farm), carry the load to the
+// nearest drop-off that accepts it, then head back out.
+
+export const getNodeResourceType = (e: GameEntity): ResourceType | null => {
+  if (e.entityType === EntityType.Resource) return (e as Resource).resourceType;
+  if (e.entityType === EntityType.Building && buildingHasAbility((e as Building).buildingType, 'farm')) return ResourceType.Food;
+  return null;
+};
+
+// Whether `player` can currently gather `type` from this entity
+export const isGatherableBy = (e: GameEntity, player: PlayerId, type: ResourceType) => {
+  if (e.entityType === EntityType.Resource) {
+    const res = e as Resource;
+    return res.resourceType === type && res.amount > 0;
+  }
+  if (e.entityType === EntityType.Building && type === ResourceType.Food) {
+    const b = e as Building;
+    return b.owner === player && buildingHasAbility(b.buildingType, 'farm') && b.isBuilt && (b.resourceAmount || 0) > 0;
+  }
+  return false;
+};
+
+export const isDropOffFor = (e: GameEntity, player: PlayerId, type: ResourceType) => {
+  if (e.entityType !== EntityType.Building || e.owner !== player) return false;
+  const b = e as Building;
+  return b.isBuilt && getBuildingDef(b.buildingType).dropOff.includes(type);
+};
+
+export const findNearestDropOff = (state: GameState, player: PlayerId, type: ResourceType, from: Vector2D) => {
+  return findNearest(state, from, e => isDropOffFor(e, player, type)) as Building | null;
+};
+
+// Replacement node once the current one runs out. Only ground the owner has
+// explored is considered, and only within GATHER_SEARCH_RADIUS.
+export const findNearestNode = (state: GameState, player: PlayerId, type: ResourceType, from: Vector2D) => {
+  return findNearest(state, from, e =>
+    isGatherableBy(e, player, type) && isExploredBy(state, player, e.position),
+    GATHER_SEARCH_RADIUS
+  );
+};
+
+// Head for the nearest drop-off with the current load. Returns false (and
+// leaves the unit alone) if there is nowhere to take it.
+export const startReturning = (state: GameState, unit: Unit) => {
+  if (!unit.gatherType || unit.carriedResources <= 0) return false;
+  const dropOff = findNearestDropOff(state, unit.owner, unit.gatherType, unit.position);
+  if (!dropOff) return false;
+  unit.state = 'RETURNING';
+  unit.targetId = dropOff.id;
+  unit.moveTarget = null;
+  return true;
+};
+
+// Back to work after a drop-off: the same node if it still has something to
+// give, otherwise the nearest one of the same type.
+export const resumeGathering = (state: GameState, unit: Unit) => {
+  const previous = state.entities[unit.gatherTargetId || ''];
+  let node: GameEntity | null = null;
+  if (previous && unit.gatherType && isGatherableBy(previous, unit.owner, unit.gatherType)) {
+    node = previous;
+  } else if (unit.gatherType) {
+    node = findNearestNode(state, unit.owner, unit.gatherType, previous ? previous.position : unit.position);
+  }
+
+  if (node) {
+    unit.state = 'GATHERING';
+    unit.targetId = node.id;
+    unit.gatherTargetId = node.id;
+  } else {
+    unit.state = 'IDLE';
+    unit.targetId = null;
+    unit.gatherTargetId = null;
+  }
+  unit.moveTarget = null;
+};
@@ -0,0 +1,389 @@
+import {
+  GameState,
+  PlayerId,
+  EntityType,
+  GameEntity,
+  Building,
+  BuildingTypeId,
+  Unit,
+  Vector2D,
+  MAP_WIDTH,
+  MAP_HEIGHT,
+} from '../types';
+import {
+  NAV_CELL_SIZE,
+  NAV_CLEARANCE,
+  NAV_MAX_EXPANSIONS,
+  NAV_REPATH_DISTANCE
+} from '../constants';
+import { getDistance } from './utils';
+import { buildingHasAbility } from './definitions';
+
+// --- GRID ---
+// Static obstacles (buildings and resource nodes) rasterised onto a uniform
+// grid. Derived data: never saved, rebuilt whenever state.navVersion moves.
+// Gates are open to their owner: their cells are only blocked for everyone else.
+
+export interface Obstacle {
+  x: number;
+  y: number;
+  radius: number;
+  isResource: boolean;
+  owner: PlayerId;
+  buildingType: BuildingTypeId | null;
+}
+
+export interface NavGrid {
+  version: number;
+  cols: number;
+  rows: number;
+  blocked: Uint8Array; // 0 open, 1 blocked, 2 a gate (see gateOwners)
+  gateOwners: Map<number, PlayerId>;
+  // Obstacles bucketed by the cell holding their centre, for push-out queries
+  buckets: Map<number, Obstacle[]>;
+  maxObstacleRadius: number;
+}
+
+const gridCache = new WeakMap<GameState, NavGrid>();
+
+const isStatic = (e: GameEntity) => e.entityType === EntityType.Building || e.entityType === EntityType.Resource;
+
+const isGate = (e: GameEntity) => e.entityType === EntityType.Building && buildingHasAbility((e as Building).buildingType, 'gate');
+
+// Whether the obstacle lets `mover` through; undefined stands for nobody in particular
+const isOpenFor = (o: Obstacle, mover?: PlayerId) =>
+  mover !== undefined && o.owner === mover && !!o.buildingType && buildingHasAbility(o.buildingType, 'gate');
+
+const cellIndex = (grid: NavGrid, cx: number, cy: number) => cy * grid.cols + cx;
+
+const toCell = (v: number, max: number) => Math.max(0, Math.min(max - 1, Math.floor(v / NAV_CELL_SIZE)));
+
+const cellCenter = (cx: number, cy: number): Vector2D => ({
+  x: cx * NAV_CELL_SIZE + NAV_CELL_SIZE / 2,
+  y: cy * NAV_CELL_SIZE + NAV_CELL_SIZE / 2
+});
+
+const buildGrid = (state: GameState): NavGrid => {
+  const cols = Math.ceil(MAP_WIDTH / NAV_CELL_SIZE);
+  const rows = Math.ceil(MAP_HEIGHT / NAV_CELL_SIZE);
+  const grid: NavGrid = {
+    version: state.navVersion,
+    cols,
+    rows,
+    blocked: new Uint8Array(cols * rows),
+    gateOwners: new Map(),
+    buckets: new Map(),
+    maxObstacleRadius: 0
+  };
+
+  // Gates go last so their opening cuts through the clearance of the walls beside them
+  const statics = (Object.values(state.entities) as GameEntity[]).filter(isStatic);
+  [...statics.filter(e => !isGate(e)), ...statics.filter(isGate)].forEach(e => {
+    const obstacle: Obstacle = {
+      x: e.position.x, y: e.position.y, radius: e.radius, isResource: e.entityType === EntityType.Resource,
+      owner: e.owner, buildingType: e.entityType === EntityType.Building ? (e as Building).buildingType : null
+    };
+    const gate = isGate(e);
+    grid.maxObstacleRadius = Math.max(grid.maxObstacleRadius, e.radius);
+
+    const key = cellIndex(grid, toCell(e.position.x, cols), toCell(e.position.y, rows));
+    const bucket = grid.buckets.get(key) || [];
+    bucket.push(obstacle);
+    grid.buckets.set(key, bucket);
+
+    const reach = e.radius + NAV_CLEARANCE;
+    const minX = toCell(e.position.x - reach, cols), maxX = toCell(e.position.x + reach, cols);
+    const minY = toCell(e.position.y - reach, rows), maxY = toCell(e.position.y + reach, rows);
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const d = getDistance(cellCenter(cx, cy), e.position);
+        if (d >= reach) continue;
+        const cell = cellIndex(grid, cx, cy);
+        if (!gate) {
+          grid.blocked[cell] = 1;
+        } else if (d < e.radius || grid.blocked[cell] === 0) {
+          grid.blocked[cell] = 2;
+          grid.gateOwners.set(cell, e.owner);
+        }
+      }
+    }
+  });
+
+  return grid;
+};
+
+export const getNavGrid = (state: GameState): NavGrid => {
+  let grid = gridCache.get(state);
+  if (!grid || grid.version !== state.navVersion) {
+    grid = buildGrid(state);
+    gridCache.set(state, grid);
+  }
+  return grid;
+};
+
+const isCellBlocked = (grid: NavGrid, cx: number, cy: number, mover?: PlayerId) => {
+  if (cx < 0 || cy < 0 || cx >= grid.cols || cy >= grid.rows) return true;
+  const cell = cellIndex(grid, cx, cy);
+  const value = grid.blocked[cell];
+  if (value === 2) return mover === undefined || grid.gateOwners.get(cell) !== mover;
+  return value === 1;
+};
+
+export const isPointBlocked = (state: GameState, p: Vector2D) => {
+  const grid = getNavGrid(state);
+  return isCellBlocked(grid, Math.floor(p.x / NAV_CELL_SIZE), Math.floor(p.y / NAV_CELL_SIZE));
+};
+
+// Nearest walkable cell centre, searching outwards ring by ring
+const findNearestWalkable = (grid: NavGrid, cx: number, cy: number, mover?: PlayerId): { cx: number; cy: number } | null => {
+  if (!isCellBlocked(grid, cx, cy, mover)) return { cx, cy };
+  const maxRing = Math.max(grid.cols, grid.rows);
+  for (let ring = 1; ring < maxRing; ring++) {
+    let best: { cx: number; cy: number } | null = null;
+    let bestDist = Infinity;
+    for (let dy = -ring; dy <= ring; dy++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        if (Math.abs(dx) !== ring && Math.abs(dy) !== ring) continue;
+        if (isCellBlocked(grid, cx + dx, cy + dy, mover)) continue;
+        const d = dx * dx + dy * dy;
+        if (d < bestDist) { bestDist = d; best = { cx: cx + dx, cy: cy + dy }; }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+};
+
+// Moves a point out of obstacles; used for ground orders aimed at a building
+export const snapToWalkable = (state: GameState, p: Vector2D): Vector2D => {
+  if (!isPointBlocked(state, p)) return { ...p };
+  const grid = getNavGrid(state);
+  const cell = findNearestWalkable(grid, toCell(p.x, grid.cols), toCell(p.y, grid.rows));
+  return cell ? cellCenter(cell.cx, cell.cy) : { ...p };
+};
+
+// Samples the segment at half-cell steps. The start and end cells are
+// ignored: units hug obstacles, so their own cell may be marked blocked.
+const hasLineOfSight = (grid: NavGrid, a: Vector2D, b: Vector2D, mover?: PlayerId) => {
+  const startCx = Math.floor(a.x / NAV_CELL_SIZE), startCy = Math.floor(a.y / NAV_CELL_SIZE);
+  const endCx = Math.floor(b.x / NAV_CELL_SIZE), endCy = Math.floor(b.y / NAV_CELL_SIZE);
+  const dist = getDistance(a, b);
+  const steps = Math.ceil(dist / (NAV_CELL_SIZE / 2));
+  for (let i = 1; i < steps; i++) {
+    const t = i / steps;
+    const cx = Math.floor((a.x + (b.x - a.x) * t) / NAV_CELL_SIZE);
+    const cy = Math.floor((a.y + (b.y - a.y) * t) / NAV_CELL_SIZE);
+    if ((cx === startCx && cy === startCy) || (cx === endCx && cy === endCy)) continue;
+    if (isCellBlocked(grid, cx, cy, mover)) return false;
+  }
+  return true;
+};
+
+// --- A* ---
+
+const NEIGHBOURS = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+const octile = (ax: number, ay: number, bx: number, by: number) => {
+  const dx = Math.abs(ax - bx), dy = Math.abs(ay - by);
+  return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+};
+
+// Binary heap keyed on f-score
+const heapPush = (heap: number[], f: Float64Array, node: number) => {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (f[heap[parent]] <= f[heap[i]]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: number[], f: Float64Array) => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    while (true) {
+      const l = i * 2 + 1, r = l + 1;
+      let smallest = i;
+      if (l < heap.length && f[heap[l]] < f[heap[smallest]]) smallest = l;
+      if (r < heap.length && f[heap[r]] < f[heap[smallest]]) smallest = r;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+};
+
+const searchCells = (grid: NavGrid, sx: number, sy: number, gx: number, gy: number, mover?: PlayerId): number[] | null => {
+  const size = grid.cols * grid.rows;
+  const g = new Float64Array(size).fill(Infinity);
+  const f = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const start = cellIndex(grid, sx, sy);
+  const goal = cellIndex(grid, gx, gy);
+
+  g[start] = 0;
+  f[start] = octile(sx, sy, gx, gy);
+  const open: number[] = [start];
+  let expansions = 0;
+
+  while (open.length > 0 && expansions < NAV_MAX_EXPANSIONS) {
+    const current = heapPop(open, f);
+    if (current === goal) {
+      const cells: number[] = [];
+      for (let c = current; c !== -1; c = cameFrom[c]) cells.push(c);
+      return cells.reverse();
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+    expansions++;
+
+    const cx = current % grid.cols, cy = Math.floor(current / grid.cols);
+    for (const [dx, dy, cost] of NEIGHBOURS) {
+      const nx = cx + dx, ny = cy + dy;
+      if (isCellBlocked(grid, nx, ny, mover)) continue;
+      // No corner cutting past an obstacle
+      if (dx !== 0 && dy !== 0 && (isCellBlocked(grid, cx + dx, cy, mover) || isCellBlocked(grid, cx, cy + dy, mover))) continue;
+      const next = cellIndex(grid, nx, ny);
+      if (closed[next]) continue;
+      const tentative = g[current] + cost;
+      if (tentative < g[next]) {
+        g[next] = tentative;
+        f[next] = tentative + octile(nx, ny, gx, gy);
+        cameFrom[next] = current;
+        heapPush(open, f, next);
+      }
+    }
+  }
+  return null;
+};
+
+// String pulling: keep only the waypoints needed to stay in line of sight
+const smoothPath = (grid: NavGrid, from: Vector2D, points: Vector2D[], mover?: PlayerId) => {
+  const result: Vector2D[] = [];
+  let anchor = from;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (!hasLineOfSight(grid, anchor, points[i + 1], mover)) {
+      result.push(points[i]);
+      anchor = points[i];
+    }
+  }
+  result.push(points[points.length - 1]);
+  return result;
+};
+
+// Waypoints from `from` to `to`, smoothed. When the goal lies inside an
+// obstacle the path ends at the closest walkable cell. Falls back to a
+// straight line if no route is found within the expansion budget. Gates
+// owned by `mover` are open.
+export const findPath = (state: GameState, from: Vector2D, to: Vector2D, mover?: PlayerId): Vector2D[] => {
+  const grid = getNavGrid(state);
+  if (hasLineOfSight(grid, from, to, mover)) return [{ ...to }];
+
+  const sx = toCell(from.x, grid.cols), sy = toCell(from.y, grid.rows);
+  const goalCell = findNearestWalkable(grid, toCell(to.x, grid.cols), toCell(to.y, grid.rows), mover);
+  if (!goalCell) return [{ ...to }];
+
+  const cells = searchCells(grid, sx, sy, goalCell.cx, goalCell.cy, mover);
+  if (!cells) return [{ ...to }];
+
+  const points = cells.slice(1).map(c => cellCenter(c % grid.cols, Math.floor(c / grid.cols)));
+  const goalWalkable = !isCellBlocked(grid, toCell(to.x, grid.cols), toCell(to.y, grid.rows), mover);
+  if (goalWalkable) {
+    points.pop();
+    points.push({ ...to });
+  }
+  if (points.length === 0) return [{ ...to }];
+  return smoothPath(grid, from, points, mover);
+};
+
+// --- MOVEMENT ---
+
+// Units marching in formation keep to the group's pace; a chase is at full speed
+const getStepSpeed = (unit: Unit) => {
+  const marching = unit.state === 'MOVING' || unit.state === 'ATTACK_MOVING';
+  return marching && unit.formationSpeed ? Math.min(unit.moveSpeed, unit.formationSpeed) : unit.moveSpeed;
+};
+
+// Steps the unit one tick along its path towards `goal`, re-planning when the
+// goal drifts or the obstacle map changes. Returns true once the unit has
+// reached the end of its path.
+export const moveUnitTowards = (state: GameState, unit: Unit, goal: Vector2D): boolean => {
+  const path = unit.path;
+  if (!path || path.navVersion !== state.navVersion || getDistance(path.goal, goal) > NAV_REPATH_DISTANCE) {
+    unit.path = { goal: { ...goal }, waypoints: findPath(state, unit.position, goal, unit.owner), navVersion: state.navVersion };
+  }
+
+  const waypoints = unit.path!.waypoints;
+  const next = waypoints.length > 0 ? waypoints[0] : goal;
+  const dist = getDistance(unit.position, next);
+  const speed = getStepSpeed(unit);
+
+  if (dist < speed) {
+    unit.position.x = next.x;
+    unit.position.y = next.y;
+    if (waypoints.length > 0) waypoints.shift();
+    return waypoints.length === 0;
+  }
+
+  const angle = Math.atan2(next.y - unit.position.y, next.x - unit.position.x);
+  unit.position.x += Math.cos(angle) * speed;
+  unit.position.y += Math.sin(angle) * speed;
+  return false;
+};
+
+// Obstacles whose footprint overlaps the circle around `center`. Reads the
+// nav grid rather than the spatial index, so buildings placed earlier in the
+// same tick are already included.
+export const queryObstacles = (state: GameState, center: Vector2D, radius: number): Obstacle[] => {
+  const grid = getNavGrid(state);
+  const reach = Math.ceil((grid.maxObstacleRadius + radius) / NAV_CELL_SIZE);
+  const ccx = toCell(center.x, grid.cols), ccy = toCell(center.y, grid.rows);
+  const result: Obstacle[] = [];
+
+  for (let cy = ccy - reach; cy <= ccy + reach; cy++) {
+    for (let cx = ccx - reach; cx <= ccx + reach; cx++) {
+      if (cx < 0 || cy < 0 || cx >= grid.cols || cy >= grid.rows) continue;
+      const bucket = grid.buckets.get(cellIndex(grid, cx, cy));
+      if (!bucket) continue;
+      bucket.forEach(o => {
+        if (getDistance(center, o) < o.radius + radius) result.push(o);
+      });
+    }
+  }
+  return result;
+};
+
+// Pushes a unit out of any building or resource it overlaps, except its own gates
+export const resolveStaticCollisions = (state: GameState, unit: Unit) => {
+  const grid = getNavGrid(state);
+  const reach = Math.ceil((grid.maxObstacleRadius + unit.radius) / NAV_CELL_SIZE);
+  const ucx = toCell(unit.position.x, grid.cols), ucy = toCell(unit.position.y, grid.rows);
+
+  for (let cy = ucy - reach; cy <= ucy + reach; cy++) {
+    for (let cx = ucx - reach; cx <= ucx + reach; cx++) {
+      if (cx < 0 || cy < 0 || cx >= grid.cols || cy >= grid.rows) continue;
+      const bucket = grid.buckets.get(cellIndex(grid, cx, cy));
+      if (!bucket) continue;
+      bucket.forEach(o => {
+        if (isOpenFor(o, unit.owner)) return;
+        const minDist = o.radius + unit.radius;
+        const d = getDistance(unit.position, o);
+        if (d >= minDist) return;
+        // Exactly on the centre: push along +x so the result stays deterministic
+        const angle = d > 0 ? Math.atan2(unit.position.y - o.y, unit.position.x - o.x) : 0;
+        unit.position.x = o.x + Math.cos(angle) * minDist;
+        unit.position.y = o.y + Math.sin(angle) * minDist;
+      });
+    }
+  }
+};
@@ -0,0 +1,121 @@
+import { GameState, PlayerId, BuildingTypeId, Vector2D, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { BUILD_GRID_SIZE, BUILD_GAP, MAX_WALL_SEGMENTS } from '../constants';
+import { getBuildingDef, buildingHasAbility } from './definitions';
+import { queryObstacles, Obstacle } from './navigation';
+import { isExploredBy } from './visibility';
+import { getDistance } from './utils';
+
+// --- BUILDING PLACEMENT ---
+// One validator shared by the Build command, the placement ghost and the AI,
+// so a spot shown as valid is a spot the engine accepts.
+
+export interface PlacementOptions {
+  // Reject footprints that reach into ground the player has never seen
+  requireExplored?: boolean;
+  // Terrain rule: resource nodes (trees, bushes) block placement
+  blockOnResources?: boolean;
+  // Footprints not in the state yet, e.g. other buildings planned this update
+  reserved?: { position: Vector2D; radius: number }[];
+}
+
+const DEFAULT_OPTIONS: Required<Omit<PlacementOptions, 'reserved'>> = {
+  requireExplored: true,
+  blockOnResources: true
+};
+
+export const snapToBuildGrid = (p: Vector2D): Vector2D => ({
+  x: Math.round(p.x / BUILD_GRID_SIZE) * BUILD_GRID_SIZE,
+  y: Math.round(p.y / BUILD_GRID_SIZE) * BUILD_GRID_SIZE
+});
+
+const isWall = (type: BuildingTypeId | null) => !!type && buildingHasAbility(type, 'wall');
+const isWallPiece = (type: BuildingTypeId | null) => isWall(type) || (!!type && buildingHasAbility(type, 'gate'));
+
+// Walls overlap each other so a line has no gaps, and walls and gates may
+// touch. Everything else keeps BUILD_GAP of free space around it.
+const blocksPlacement = (type: BuildingTypeId, position: Vector2D, radius: number, o: Obstacle, blockOnResources: boolean) => {
+  if (o.isResource && !blockOnResources) return false;
+  const d = getDistance(position, o);
+  if (isWall(type) && isWall(o.buildingType)) return d < BUILD_GRID_SIZE / 2;
+  if (isWallPiece(type) && isWallPiece(o.buildingType)) return d < o.radius + radius;
+  return d < o.radius + radius + BUILD_GAP;
+};
+
+// Returns a human readable reason if `type` cannot be placed at `position`
+export const validatePlacement = (
+  state: GameState,
+  player: PlayerId,
+  type: BuildingTypeId,
+  position: Vector2D,
+  options: PlacementOptions = {}
+): string | null => {
+  const { requireExplored, blockOnResources } = { ...DEFAULT_OPTIONS, ...options };
+  const radius = getBuildingDef(type).stats.radius;
+
+  if (position.x - radius < 0 || position.y - radius < 0 || position.x + radius > MAP_WIDTH || position.y + radius > MAP_HEIGHT) {
+    return 'Cannot build outside the map';
+  }
+
+  if (requireExplored) {
+    const probes = [position, ...[[-1, 0], [1, 0], [0, -1], [0, 1]].map(([dx, dy]) => ({ x: position.x + dx * radius, y: position.y + dy * radius }))];
+    if (probes.some(p => !isExploredBy(state, player, p))) return 'Cannot build on unexplored ground';
+  }
+
+  const blocked = queryObstacles(state, position, radius + BUILD_GAP).some(o => blocksPlacement(type, position, radius, o, blockOnResources));
+  if (blocked) return 'Something is in the way';
+
+  if (options.reserved && options.reserved.some(r => getDistance(r.position, position) < r.radius + radius + BUILD_GAP)) {
+    return 'Something is in the way';
+  }
+  return null;
+};
+
+// Closest valid grid spot to `near`, searched ring by ring out to
+// `maxDistance`. Used by the AI to turn a rough location into a legal one.
+export const findPlacement = (
+  state: GameState,
+  player: PlayerId,
+  type: BuildingTypeId,
+  near: Vector2D,
+  maxDistance: number,
+  options: PlacementOptions = {}
+): Vector2D | null => {
+  const origin = snapToBuildGrid(near);
+  const maxRing = Math.ceil(maxDistance / BUILD_GRID_SIZE);
+  for (let ring = 0; ring <= maxRing; ring++) {
+    let best: Vector2D | null = null;
+    let bestDist = Infinity;
+    for (let dy = -ring; dy <= ring; dy++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        if (Math.abs(dx) !== ring && Math.abs(dy) !== ring) continue;
+        const p = { x: origin.x + dx * BUILD_GRID_SIZE, y: origin.y + dy * BUILD_GRID_SIZE };
+        const d = dx * dx + dy * dy;
+        if (d >= bestDist) continue;
+        if (validatePlacement(state, player, type, p, options) === null) {
+          best = p;
+          bestDist = d;
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+};
+
+// Grid spots of a wall dragged from `from` to `to`: one per grid step along
+// the longer axis, so diagonal runs close up too. Capped at MAX_WALL_SEGMENTS.
+export const getWallLine = (from: Vector2D, to: Vector2D): Vector2D[] => {
+  const a = snapToBuildGrid(from);
+  const b = snapToBuildGrid(to);
+  const steps = Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y)) / BUILD_GRID_SIZE;
+  const line = [a];
+  for (let i = 1; i <= Math.min(steps, MAX_WALL_SEGMENTS - 1); i++) {
+    line.push(snapToBuildGrid({ x: a.x + (b.x - a.x) * i / steps, y: a.y + (b.y - a.y) * i / steps }));
+  }
+  return line;
+};
+
+// The spots of a wall line that can be built on; blocked ones are skipped
+export const getWallSpots = (state: GameState, player: PlayerId, type: BuildingTypeId, from: Vector2D, to: Vector2D) => {
+  return getWallLine(from, to).filter(p => validatePlacement(state, player, type, p) === null);
+};
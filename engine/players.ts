@@ -0,0 +1,72 @@
+import { GameState, PlayerId, NEUTRAL, ControllerType, MatchSetup, PlayerSlot } from '../types';
+import { PLAYER_COLORS, MIN_PLAYERS, MAX_PLAYERS } from '../constants';
+
+// --- PLAYERS & ALLIANCES ---
+
+export const playerIdForSlot = (slot: number): PlayerId => `P${slot + 1}`;
+
+export const slotOfPlayer = (id: PlayerId) => Number(id.slice(1)) - 1;
+
+export const getPlayerIds = (state: GameState): PlayerId[] => Object.keys(state.players);
+
+export const areAllies = (state: GameState, a: PlayerId, b: PlayerId) => {
+  if (a === b) return true;
+  const pa = state.players[a], pb = state.players[b];
+  return !!pa && !!pb && pa.team === pb.team;
+};
+
+// Whether units of `a` may target entities of `b`. Neutral is never an enemy.
+export const areEnemies = (state: GameState, a: PlayerId, b: PlayerId) => {
+  if (a === NEUTRAL || b === NEUTRAL) return false;
+  return !areAllies(state, a, b);
+};
+
+// The player this browser controls: the first human slot
+export const getLocalPlayer = (state: GameState): PlayerId => {
+  return getPlayerIds(state).find(id => state.players[id].controller === ControllerType.Human) || playerIdForSlot(0);
+};
+
+// The setup a running match was started with
+export const getMatchSetup = (state: GameState): MatchSetup => ({
+  slots: getPlayerIds(state).map(id => {
+    const { controller, color, team } = state.players[id];
+    const ai = state.ai[id];
+    return ai ? { controller, color, team, difficulty: ai.difficulty, aiController: ai.controller, strategy: ai.strategy } : { controller, color, team };
+  })
+});
+
+// Slot of the player this browser controls, before a state exists
+export const getLocalSlot = (setup: MatchSetup) => {
+  return Math.max(0, setup.slots.findIndex(s => s.controller === ControllerType.Human));
+};
+
+// Human players in slot order; in an online match each one is a client
+export const getHumanPlayers = (setup: MatchSetup): PlayerId[] => {
+  return setup.slots.flatMap((s, i) => s.controller === ControllerType.Human ? [playerIdForSlot(i)] : []);
+};
+
+// Returns a human readable reason if a match cannot be started with `setup`.
+// `humans` is the number of people taking part: one, the players in an online
+// room, or none for a match only watched.
+export const validateMatchSetup = (setup: MatchSetup, humans = 1): string | null => {
+  if (setup.slots.length < MIN_PLAYERS || setup.slots.length > MAX_PLAYERS) {
+    return `A match needs ${MIN_PLAYERS} to ${MAX_PLAYERS} players`;
+  }
+  if (getHumanPlayers(setup).length !== humans) {
+    return humans === 1 ? 'Exactly one slot must be human' : `Exactly ${humans} slots must be human, one per player in the room`;
+  }
+  if (new Set(setup.slots.map(s => s.team)).size < 2) return 'A match needs at least two teams';
+  return null;
+};
+
+const slot = (index: number, controller: ControllerType, team: number): PlayerSlot => ({
+  controller, team, color: PLAYER_COLORS[index]
+});
+
+export const MATCH_PRESETS: Record<string, MatchSetup> = {
+  '1v1': { slots: [slot(0, ControllerType.Human, 0), slot(1, ControllerType.AI, 1)] },
+  'Free-for-all (4)': { slots: [0, 1, 2, 3].map(i => slot(i, i === 0 ? ControllerType.Human : ControllerType.AI, i)) },
+  '2v2': { slots: [slot(0, ControllerType.Human, 0), slot(1, ControllerType.AI, 1), slot(2, ControllerType.AI, 0), slot(3, ControllerType.AI, 1)] },
+};
+
+export const DEFAULT_MATCH_SETUP = MATCH_PRESETS['1v1'];
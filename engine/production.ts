@@ -0,0 +1,48 @@
+import { GameState, EntityType, Building, Unit, Resource, ProductionItem, ProductionCost } from '../types';
+import { TECHS } from '../constants';
+import { getUnitDef, unitHasAbility, buildingHasAbility } from './definitions';
+import { snapToWalkable } from './navigation';
+
+// --- PRODUCTION ---
+// Queue rules shared by the engine and the HUD, and where new units go.
+
+export const getProductionCost = (item: ProductionItem): ProductionCost => {
+  return item.tech ? TECHS[item.tech].cost : getUnitDef(item.unitType!).cost;
+};
+
+// A unit at the front of the queue waits until there is room for it; its
+// timer stops until a house goes up or someone dies
+export const isProductionPaused = (state: GameState, b: Building) => {
+  const front = b.productionQueue[0];
+  const player = state.players[b.owner];
+  return !!front?.unitType && !!player && player.population >= player.maxPopulation;
+};
+
+// Something a worker can be rallied to gather from
+const isGatherable = (state: GameState, b: Building, targetId: string | null) => {
+  const target = state.entities[targetId || ''];
+  if (!target) return false;
+  if (target.entityType === EntityType.Resource) return (target as Resource).amount > 0;
+  return target.entityType === EntityType.Building && target.owner === b.owner &&
+    buildingHasAbility((target as Building).buildingType, 'farm') && (target as Building).isBuilt;
+};
+
+// Sends a freshly trained unit to the building's rally point. Workers rallied
+// to a resource or farm gather it; everyone else walks there. A rally unit is
+// followed to wherever it stands now, and a rally target that is gone leaves
+// the spot it was set on.
+export const sendToRallyPoint = (state: GameState, b: Building, unit: Unit) => {
+  const rally = b.rallyPoint;
+  if (!rally) return;
+  if (unitHasAbility(unit.unitType, 'gather') && isGatherable(state, b, rally.targetId)) {
+    unit.state = 'GATHERING';
+    unit.targetId = rally.targetId;
+    unit.gatherTargetId = rally.targetId;
+    unit.moveTarget = null;
+    return;
+  }
+  const target = state.entities[rally.targetId || ''];
+  unit.state = 'MOVING';
+  unit.targetId = null;
+  unit.moveTarget = snapToWalkable(state, target && target.entityType === EntityType.Unit ? target.position : rally.position);
+};
@@ -0,0 +1,128 @@
+import { GameState, Command, Camera, MatchSetup } from '../types';
+import { SIM_DT, SIM_TICK_RATE, REPLAY_SNAPSHOT_INTERVAL } from '../constants';
+import { createInitialState } from './setup';
+import { stepSimulation } from './simulation';
+import { DEFAULT_MATCH_SETUP } from './players';
+
+export const REPLAY_VERSION = 2;
+
+// Player ids before matches had numbered slots
+export const LEGACY_PLAYER_IDS: Record<string, string> = { HUMAN: 'P1', AI: 'P2', NEUTRAL: 'NEUTRAL' };
+export const LEGACY_WINNER_TEAMS: Record<string, number> = { HUMAN: 0, AI: 1 };
+
+// [tick, command]: tuples keep the exported file compact
+export type ReplayEntry = [number, Command];
+
+// A match is fully described by its starting conditions plus every accepted
+// order (player and AI) stamped with the tick it was applied on.
+export interface Replay {
+  version: number;
+  seed: number;
+  setup: MatchSetup;
+  tickRate: number;
+  endTick: number;
+  winner: GameState['winner'];
+  commands: ReplayEntry[];
+}
+
+export const createReplay = (seed: number, setup: MatchSetup): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  setup,
+  tickRate: SIM_TICK_RATE,
+  endTick: 0,
+  winner: null,
+  commands: []
+});
+
+export const recordCommands = (replay: Replay, tick: number, commands: Command[]) => {
+  commands.forEach(command => replay.commands.push([tick, command]));
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+// v1 replays were always Human vs AI, before numbered player slots
+export const upgradeReplay = (data: any) => {
+  if (data.version !== 1) return data;
+  return {
+    ...data,
+    version: 2,
+    setup: DEFAULT_MATCH_SETUP,
+    winner: data.winner ? LEGACY_WINNER_TEAMS[data.winner] : null,
+    commands: data.commands.map(([tick, command]: [number, any]) => [tick, { ...command, player: LEGACY_PLAYER_IDS[command.player] }])
+  };
+};
+
+export const parseReplay = (json: string): Replay => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') throw new Error('Replay file is empty');
+  if (data.version === 1 && Array.isArray(data.commands)) data = upgradeReplay(data);
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version}`);
+  if (data.tickRate !== SIM_TICK_RATE) throw new Error(`Replay was recorded at ${data.tickRate} ticks/s, engine runs at ${SIM_TICK_RATE}`);
+  if (typeof data.seed !== 'number' || typeof data.endTick !== 'number' || !Array.isArray(data.commands)) {
+    throw new Error('Replay file is missing seed, endTick or commands');
+  }
+  if (!data.setup || !Array.isArray(data.setup.slots)) throw new Error('Replay file is missing the match setup');
+  return data as Replay;
+};
+
+// --- PLAYBACK ---
+
+export interface ReplayPlayback {
+  readonly replay: Replay;
+  getState: () => GameState;
+  // Simulates up to `ticks` further ticks, stopping at the end of the replay
+  advance: (ticks: number) => void;
+  // Jumps to any tick, restoring the closest earlier snapshot when rewinding
+  seek: (tick: number) => void;
+}
+
+const cloneState = (state: GameState): GameState => structuredClone(state);
+
+export const createReplayPlayback = (replay: Replay, camera: Camera): ReplayPlayback => {
+  const commandsByTick = new Map<number, Command[]>();
+  replay.commands.forEach(([tick, command]) => {
+    const list = commandsByTick.get(tick) || [];
+    list.push(command);
+    commandsByTick.set(tick, list);
+  });
+
+  // View-only fields survive snapshot restores
+  let state = createInitialState(replay.seed, replay.setup, camera);
+  const snapshots = new Map<number, GameState>([[0, cloneState(state)]]);
+
+  const restore = (snapshot: GameState) => {
+    const { camera: cam, selectedEntityIds } = state;
+    state = cloneState(snapshot);
+    state.camera = cam;
+    state.selectedEntityIds = selectedEntityIds;
+  };
+
+  const stepOnce = () => {
+    stepSimulation(state, commandsByTick.get(state.tick) || [], SIM_DT, { runAI: false });
+    if (state.tick % REPLAY_SNAPSHOT_INTERVAL === 0 && !snapshots.has(state.tick)) {
+      snapshots.set(state.tick, cloneState(state));
+    }
+  };
+
+  const advance = (ticks: number) => {
+    for (let i = 0; i < ticks && state.tick < replay.endTick && !state.gameOver; i++) stepOnce();
+  };
+
+  const seek = (tick: number) => {
+    const target = Math.max(0, Math.min(replay.endTick, Math.floor(tick)));
+    if (target < state.tick) {
+      let best = 0;
+      snapshots.forEach((_, t) => { if (t <= target && t > best) best = t; });
+      restore(snapshots.get(best)!);
+    }
+    advance(target - state.tick);
+  };
+
+  return { replay, getState: () => state, advance, seek };
+};
@@ -0,0 +1,33 @@
+import { ResourceType, ResourceAmounts, ResourceCost } from '../types';
+
+// --- RESOURCES ---
+// Stockpiles and costs are keyed by ResourceType, so code that pays for or
+// counts resources loops over RESOURCE_TYPES instead of naming them.
+
+export const RESOURCE_TYPES = Object.values(ResourceType) as ResourceType[];
+
+export const createResourceAmounts = (): ResourceAmounts => {
+  const amounts = {} as ResourceAmounts;
+  RESOURCE_TYPES.forEach(type => { amounts[type] = 0; });
+  return amounts;
+};
+
+// First resource the stockpile is short of, or null if it covers the cost
+export const getShortfall = (stock: ResourceAmounts, cost: ResourceCost): ResourceType | null => {
+  return RESOURCE_TYPES.find(type => stock[type] < (cost[type] || 0)) || null;
+};
+
+export const canAfford = (stock: ResourceAmounts, cost: ResourceCost) => getShortfall(stock, cost) === null;
+
+export const spendResources = (stock: ResourceAmounts, cost: ResourceCost) => {
+  RESOURCE_TYPES.forEach(type => { stock[type] -= cost[type] || 0; });
+};
+
+export const refundResources = (stock: ResourceAmounts, cost: ResourceCost) => {
+  RESOURCE_TYPES.forEach(type => { stock[type] += cost[type] || 0; });
+};
+
+// Sum over all resources, e.g. to compare the value of units
+export const getCostTotal = (cost: ResourceCost) => RESOURCE_TYPES.reduce((sum, type) => sum + (cost[type] || 0), 0);
+
+export const getResourceName = (type: ResourceType) => type.toLowerCase();
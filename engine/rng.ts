@@ -0,0 +1,39 @@
+// Mulberry32: tiny, fast and good enough for gameplay. The whole generator
+// state is a single uint32 stored on GameState, so saving the state also
+// saves the random sequence. The AI draws from its own stream (state.ai) so
+// replays can re-apply logged AI orders without running the AI.
+const nextUint32 = (s: number) => {
+  const next = (s + 0x6D2B79F5) >>> 0;
+  let t = Math.imul(next ^ (next >>> 15), next | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { next, value: (t ^ (t >>> 14)) >>> 0 };
+};
+
+export const createSeed = () => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+export interface RandomSource {
+  rngState: number;
+}
+
+// Returns a float in [0, 1) and advances the source's generator
+export const random = (source: RandomSource) => {
+  const { next, value } = nextUint32(source.rngState);
+  source.rngState = next;
+  return value / 4294967296;
+};
+
+export const randomRange = (source: RandomSource, min: number, max: number) => min + random(source) * (max - min);
+
+// Independent stream for a sub-system, derived from the match seed
+export const deriveSeed = (seed: number, salt: number) => (seed ^ Math.imul(salt, 0x9E3779B9)) >>> 0;
+
+// Accepts either a number or any string (e.g. from a bug report URL)
+export const parseSeed = (input: string) => {
+  const n = Number(input);
+  if (Number.isFinite(n)) return Math.floor(n) >>> 0;
+  let h = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    h = Math.imul(h ^ input.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
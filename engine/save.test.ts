@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ControllerType, GameState } from '../types';
+import { SIM_DT } from '../constants';
+import { createInitialState } from './setup';
+import { stepSimulation } from './simulation';
+import { serializeSave, parseSave } from './save';
+
+const run = (state: GameState, ticks: number) => {
+  for (let i = 0; i < ticks; i++) stepSimulation(state, [], SIM_DT);
+};
+
+// Paths to objects reachable from more than one place. JSON turns each of
+// those into separate copies, so a loaded game would drift apart.
+const findSharedObjects = (root: object) => {
+  const seen = new Map<object, string>();
+  const shared: string[] = [];
+  const visit = (value: unknown, path: string) => {
+    if (!value || typeof value !== 'object') return;
+    const first = seen.get(value);
+    if (first !== undefined) {
+      shared.push(`${path} is ${first}`);
+      return;
+    }
+    seen.set(value, path);
+    Object.entries(value).forEach(([key, child]) => visit(child, `${path}.${key}`));
+  };
+  visit(root, 'state');
+  return shared;
+};
+
+describe('saves', () => {
+  it('continue exactly where the match stopped', () => {
+    const setup = { slots: [0, 1, 2, 3].map(i => ({ controller: ControllerType.AI, color: i, team: i })) };
+    const state = createInitialState(11, setup);
+    run(state, 3000);
+    expect(findSharedObjects(state)).toEqual([]);
+
+    const loaded = parseSave(serializeSave(state)).state;
+    run(state, 600);
+    run(loaded, 600);
+    expect(JSON.stringify(loaded)).toBe(JSON.stringify(state));
+  }, 60000);
+});
@@ -0,0 +1,168 @@
+import { GameState, ControllerType, AIDifficulty, DamageType, UnitType, UnitStance } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import { Replay, upgradeReplay, LEGACY_PLAYER_IDS, LEGACY_WINNER_TEAMS } from './replay';
+import { createFog, updateVisibility } from './visibility';
+import { DEFAULT_AI_CONTROLLER } from './aiController';
+import { AI_STRATEGIES } from './strategies';
+import { getUnitDef, isUnitType, isBuildingType } from './definitions';
+
+// Bump SAVE_VERSION whenever the shape of GameState (or anything inside it:
+// Unit, Building, PlayerState, AIState...) changes, and add a migration that
+// upgrades a save from the previous version.
+export const SAVE_VERSION = 10;
+
+export interface SaveFile {
+  version: number;
+  savedAt: string; // ISO timestamp
+  state: GameState;
+  // Carried along so a loaded match can still be exported as a full replay
+  replay: Replay | null;
+}
+
+type Migration = (save: any) => any;
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: obstacle-aware pathfinding
+  1: save => ({ ...save, state: { ...save.state, navVersion: 0 } }),
+  // v3: fog of war. Exploration history is lost; current vision is rebuilt.
+  2: save => {
+    const entities: Record<string, any> = {};
+    Object.entries(save.state.entities).forEach(([id, e]: [string, any]) => {
+      entities[id] = e.entityType === 'UNIT' ? { ...e, sightRadius: getUnitDef(e.unitType).stats.sightRadius } : e;
+    });
+    const state = {
+      ...save.state,
+      entities,
+      ai: { ...save.state.ai, knownEnemyBase: null, scoutId: null },
+      fog: createFog(['HUMAN', 'AI'])
+    };
+    // Current vision is rebuilt once the players have their v4 ids
+    return { ...save, state };
+  },
+  // v4: numbered player slots with teams. Human/AI become P1/P2.
+  3: save => {
+    const { players, entities, fog, ai, winner } = save.state;
+    const entitiesV4: Record<string, any> = {};
+    Object.entries(entities).forEach(([id, e]: [string, any]) => {
+      entitiesV4[id] = { ...e, owner: LEGACY_PLAYER_IDS[e.owner] };
+    });
+    const winnerTeam = winner ? LEGACY_WINNER_TEAMS[winner] : null;
+    const slot = (legacy: string, controller: ControllerType, index: number) => ({
+      ...players[legacy], controller, color: PLAYER_COLORS[index], team: index,
+      defeated: save.state.gameOver && winnerTeam !== index
+    });
+    const state = {
+      ...save.state,
+      entities: entitiesV4,
+      players: { P1: slot('HUMAN', ControllerType.Human, 0), P2: slot('AI', ControllerType.AI, 1) },
+      fog: { P1: fog.HUMAN, P2: fog.AI },
+      ai: { P2: ai },
+      winner: winnerTeam
+    };
+    updateVisibility(state);
+    return { ...save, state, replay: save.replay ? upgradeReplay(save.replay) : null };
+  },
+  // v5: pluggable AI controllers with difficulty levels
+  4: save => {
+    const ai: Record<string, any> = {};
+    Object.entries(save.state.ai).forEach(([id, memory]: [string, any]) => {
+      ai[id] = { ...memory, controller: DEFAULT_AI_CONTROLLER, difficulty: AIDifficulty.Normal };
+    });
+    return { ...save, state: { ...save.state, ai } };
+  },
+  // v6: data-driven build orders. A match in progress has its opening behind
+  // it, so the plan starts out finished and the reactive rules carry on.
+  5: save => {
+    const ai: Record<string, any> = {};
+    Object.entries(save.state.ai).forEach(([id, memory]: [string, any]) => {
+      ai[id] = { ...memory, strategy: 'boom', buildOrderStep: AI_STRATEGIES.boom.buildOrder.length, stepStartedAt: save.state.gameTime };
+    });
+    return { ...save, state: { ...save.state, ai } };
+  },
+  // v7: technologies
+  6: save => {
+    const players: Record<string, any> = {};
+    Object.entries(save.state.players).forEach(([id, player]: [string, any]) => {
+      players[id] = { ...player, techs: [] };
+    });
+    return { ...save, state: { ...save.state, players } };
+  },
+  // v8: resources keyed by ResourceType, with stone and gold
+  7: save => {
+    const players: Record<string, any> = {};
+    Object.entries(save.state.players).forEach(([id, player]: [string, any]) => {
+      const { wood, food } = player.resources;
+      players[id] = { ...player, resources: { WOOD: wood, FOOD: food, STONE: 0, GOLD: 0 } };
+    });
+    return { ...save, state: { ...save.state, players } };
+  },
+  // v9: armor and damage types. Arrows in flight were all fired by archers.
+  8: save => {
+    const entities: Record<string, any> = {};
+    Object.entries(save.state.entities).forEach(([id, e]: [string, any]) => {
+      if (e.entityType === 'UNIT') {
+        const { meleeArmor, pierceArmor } = getUnitDef(e.unitType).stats;
+        entities[id] = { ...e, meleeArmor, pierceArmor };
+      } else if (e.entityType === 'PROJECTILE') {
+        entities[id] = { ...e, damageType: DamageType.Pierce, sourceType: UnitType.Archer };
+      } else {
+        entities[id] = e;
+      }
+    });
+    return { ...save, state: { ...save.state, entities } };
+  },
+  // v10: unit stances. Every unit so far fought like an Aggressive one.
+  9: save => {
+    const entities: Record<string, any> = {};
+    Object.entries(save.state.entities).forEach(([id, e]: [string, any]) => {
+      entities[id] = e.entityType === 'UNIT' ? { ...e, stance: UnitStance.Aggressive } : e;
+    });
+    return { ...save, state: { ...save.state, entities } };
+  },
+};
+
+export const serializeSave = (state: GameState, replay: Replay | null = null) => {
+  const save: SaveFile = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    state: { ...state, buildingToPlace: null },
+    replay
+  };
+  return JSON.stringify(save);
+};
+
+export const migrateSave = (data: any): SaveFile => {
+  if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+    throw new Error('Save file has no schema version');
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new Error(`Save was made by a newer version of the game (v${data.version})`);
+  }
+  let save = data;
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) throw new Error(`No migration from save version ${save.version}`);
+    save = { ...migrate(save), version: save.version + 1 };
+  }
+  return save as SaveFile;
+};
+
+export const parseSave = (json: string): SaveFile => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+  const save = migrateSave(data);
+  if (!save.state || typeof save.state.entities !== 'object' || !save.state.players || !save.state.ai) {
+    throw new Error('Save file is missing game state');
+  }
+  // Saves made with other data files may name types this build does not define
+  Object.values(save.state.entities).forEach((e: any) => {
+    if (e.entityType === 'UNIT' && !isUnitType(e.unitType)) throw new Error(`Save uses unknown unit "${e.unitType}"`);
+    if (e.entityType === 'BUILDING' && !isBuildingType(e.buildingType)) throw new Error(`Save uses unknown building "${e.buildingType}"`);
+  });
+  return save;
+};
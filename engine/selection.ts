@@ -0,0 +1,72 @@
+import { GameState, PlayerId, GameEntity, EntityType, Unit, Building } from '../types';
+import { canSee } from './visibility';
+import { unitHasAbility } from './definitions';
+
+// --- SELECTION ---
+// Which entities a click, a drag or a hotkey picks. The map decides what is
+// under the cursor or on screen and passes it in as a predicate, so these
+// stay free of the renderer.
+
+export type ScreenTest = (e: GameEntity) => boolean;
+
+// Type id shared by entities that count as "the same kind"
+const getKind = (e: GameEntity) => {
+  if (e.entityType === EntityType.Unit) return (e as Unit).unitType;
+  if (e.entityType === EntityType.Building) return (e as Building).buildingType;
+  return null;
+};
+
+const ownEntities = (state: GameState, player: PlayerId, entityType: EntityType) =>
+  (Object.values(state.entities) as GameEntity[]).filter(e => e.owner === player && e.entityType === entityType);
+
+// A drag picks the player's units inside the box, or their buildings when
+// the box holds no units
+export const selectInBox = (state: GameState, player: PlayerId, inBox: ScreenTest): string[] => {
+  const units = ownEntities(state, player, EntityType.Unit).filter(inBox);
+  if (units.length > 0) return units.map(e => e.id);
+  return ownEntities(state, player, EntityType.Building).filter(inBox).map(e => e.id);
+};
+
+// Every entity the player can see with the owner and type of `clicked`,
+// optionally limited to those on screen. Resources select on their own.
+export const selectSameKind = (state: GameState, player: PlayerId, clicked: GameEntity, onScreen?: ScreenTest): string[] => {
+  const kind = getKind(clicked);
+  if (!kind) return [clicked.id];
+  return (Object.values(state.entities) as GameEntity[])
+    .filter(e => e.owner === clicked.owner && getKind(e) === kind && canSee(state, player, e) && (!onScreen || onScreen(e)))
+    .map(e => e.id);
+};
+
+// Shift adds to what the player already has selected. A single clicked
+// entity that is already selected is taken out instead. Only the player's
+// own entities are combined; anything else replaces the selection.
+export const combineSelection = (state: GameState, player: PlayerId, current: string[], picked: string[]): string[] => {
+  const own = (id: string) => state.entities[id]?.owner === player;
+  if (picked.length === 0 || !picked.every(own) || !current.every(own)) return picked.length > 0 ? picked : current;
+  if (picked.length === 1 && current.includes(picked[0])) return current.filter(id => id !== picked[0]);
+  return [...current, ...picked.filter(id => !current.includes(id))];
+};
+
+// Living members of a control group; the dead drop out when it is recalled
+export const getControlGroup = (state: GameState, player: PlayerId, ids: string[] | undefined): string[] => {
+  return (ids ?? []).filter(id => state.entities[id]?.owner === player);
+};
+
+const isIdleWorker = (e: GameEntity) =>
+  unitHasAbility((e as Unit).unitType, 'gather') && (e as Unit).state === 'IDLE';
+
+// Cycles through idle workers, oldest first: the one after the current pick,
+// or the first. Entities are kept in the order they were created.
+export const getNextIdleWorker = (state: GameState, player: PlayerId, current: string[]): string | null => {
+  const idle = ownEntities(state, player, EntityType.Unit).filter(isIdleWorker).map(e => e.id);
+  if (idle.length === 0) return null;
+  const at = current.length === 1 ? idle.indexOf(current[0]) : -1;
+  return idle[(at + 1) % idle.length];
+};
+
+// Every unit of the player that does not gather
+export const selectMilitary = (state: GameState, player: PlayerId): string[] => {
+  return ownEntities(state, player, EntityType.Unit)
+    .filter(e => !unitHasAbility((e as Unit).unitType, 'gather'))
+    .map(e => e.id);
+};
@@ -0,0 +1,166 @@
+import {
+  GameState,
+  NEUTRAL,
+  ControllerType,
+  AIDifficulty,
+  AIState,
+  MatchSetup,
+  EntityType,
+  UnitType,
+  BuildingType,
+  Unit,
+  Building,
+  GameEntity,
+  ResourceType,
+  Resource,
+  Camera,
+  UnitStance,
+  MAP_WIDTH,
+  MAP_HEIGHT,
+} from '../types';
+import { STARTING_RESOURCES, RESOURCE_STATS, BASE_POPULATION, START_POSITIONS } from '../constants';
+import { generateId } from './utils';
+import { random, deriveSeed } from './rng';
+import { createFog, updateVisibility } from './visibility';
+import { DEFAULT_AI_CONTROLLER } from './aiController';
+import { pickStrategy } from './strategies';
+import { getUnitDef, getBuildingDef } from './definitions';
+import { playerIdForSlot, getHumanPlayers, validateMatchSetup, DEFAULT_MATCH_SETUP } from './players';
+
+// Builds the opening position: one Town Center and three peasants per player,
+// resource clusters next to each base and a scatter of resources mid-map.
+// Everything random is drawn from the seeded generator, so a seed and a
+// match setup fully determine the map.
+export const createInitialState = (seed: number, setup: MatchSetup = DEFAULT_MATCH_SETUP, camera: Camera = { x: 0, y: 0 }): GameState => {
+  // Any number of humans: one offline, one per client online, none when watching bots
+  const invalid = validateMatchSetup(setup, getHumanPlayers(setup).length);
+  if (invalid) throw new Error(invalid);
+
+  const players: GameState['players'] = {};
+  const ai: GameState['ai'] = {};
+  setup.slots.forEach((slot, i) => {
+    const id = playerIdForSlot(i);
+    players[id] = {
+      resources: { ...STARTING_RESOURCES }, population: 0, maxPopulation: BASE_POPULATION,
+      controller: slot.controller, color: slot.color, team: slot.team, defeated: false, techs: []
+    };
+    // Each AI draws from its own stream, so playback without AI stays in sync
+    if (slot.controller === ControllerType.AI) {
+      const memory: AIState = {
+        state: 'ECONOMY', nextBuildTime: 0, lastUpdateTime: 0, rngState: deriveSeed(seed, i), knownEnemyBase: null, scoutId: null,
+        controller: slot.aiController || DEFAULT_AI_CONTROLLER, difficulty: slot.difficulty || AIDifficulty.Normal,
+        strategy: '', buildOrderStep: 0, stepStartedAt: 0
+      };
+      memory.strategy = pickStrategy(slot.strategy, memory);
+      ai[id] = memory;
+    }
+  });
+
+  const state: GameState = {
+    entities: {},
+    players,
+    selectedEntityIds: [],
+    tick: 0,
+    gameTime: 0,
+    seed,
+    rngState: seed >>> 0,
+    nextEntityId: 1,
+    navVersion: 0,
+    ai,
+    fog: createFog(Object.keys(players)),
+    gameOver: false,
+    winner: null,
+    buildingToPlace: null,
+    camera
+  };
+
+  const spawnEntity = (entity: GameEntity) => {
+    state.entities[entity.id] = entity;
+  };
+
+  const bases = setup.slots.map((_, i) => ({ owner: playerIdForSlot(i), position: START_POSITIONS[i] }));
+  const center = { x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 };
+
+  // Bases
+  const tc = getBuildingDef(BuildingType.TownCenter).stats;
+  bases.forEach(({ owner, position }) => {
+    spawnEntity({
+      id: generateId(state), entityType: EntityType.Building, buildingType: BuildingType.TownCenter, owner,
+      position: { ...position }, hp: tc.hp, maxHp: tc.hp, radius: tc.radius, constructionProgress: 100, isBuilt: true, productionQueue: []
+    } as Building);
+  });
+
+  // Initial Peasants, lined up on the side of the Town Center facing the map centre
+  const peasant = getUnitDef(UnitType.Peasant).stats;
+  [0, 1, 2].forEach(i => {
+    bases.forEach(({ owner, position }) => {
+      const sx = Math.sign(center.x - position.x), sy = Math.sign(center.y - position.y);
+      const offset = sy !== 0 ? { x: (sx || 1) * i * 20, y: sy * 100 } : { x: sx * 100, y: i * 20 };
+      spawnEntity({
+        id: generateId(state), entityType: EntityType.Unit, unitType: UnitType.Peasant, owner,
+        position: { x: position.x + offset.x, y: position.y + offset.y }, ...peasant, maxHp: peasant.hp,
+        state: 'IDLE', targetId: null, moveTarget: null, lastAttackTime: 0, carriedResources: 0,
+        stance: UnitStance.Aggressive
+      } as Unit);
+    });
+  });
+
+  // Resources - Clusters
+  const createCluster = (x: number, y: number, type: ResourceType, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const angle = random(state) * Math.PI * 2;
+      const dist = random(state) * 80;
+      spawnEntity({
+        id: generateId(state), entityType: EntityType.Resource, resourceType: type, owner: NEUTRAL,
+        position: { x: x + Math.cos(angle) * dist, y: y + Math.sin(angle) * dist },
+        radius: 15, hp: 500, maxHp: 500, amount: 500
+      } as Resource);
+    }
+  };
+
+  // Base Resources: wood and food behind each Town Center, 45 degrees either
+  // side of the direction pointing away from the map centre
+  bases.forEach(({ position }) => {
+    const away = Math.atan2(position.y - center.y, position.x - center.x);
+    createCluster(position.x + Math.round(Math.cos(away + Math.PI / 4) * 150), position.y + Math.round(Math.sin(away + Math.PI / 4) * 150), ResourceType.Wood, 10);
+    createCluster(position.x + Math.round(Math.cos(away - Math.PI / 4) * 150), position.y + Math.round(Math.sin(away - Math.PI / 4) * 150), ResourceType.Food, 8);
+  });
+
+  // Mid Map Resources, ten per player
+  for (let i = 0; i < bases.length * 10; i++) {
+    const x = random(state) * (MAP_WIDTH - 400) + 200;
+    const y = random(state) * (MAP_HEIGHT - 400) + 200;
+    spawnEntity({
+      id: generateId(state), entityType: EntityType.Resource, resourceType: random(state) > 0.5 ? ResourceType.Wood : ResourceType.Food,
+      owner: NEUTRAL, position: { x, y }, radius: 15, hp: 500, maxHp: 500, amount: 500
+    } as Resource);
+  }
+
+  // Mines: a stone and a gold deposit beside each Town Center, towards the
+  // map centre, and one contested mine per player in the middle
+  const createMine = (x: number, y: number, type: ResourceType) => {
+    const { maxAmount } = RESOURCE_STATS[type];
+    spawnEntity({
+      id: generateId(state), entityType: EntityType.Resource, resourceType: type, owner: NEUTRAL,
+      position: { x, y }, radius: 18, hp: maxAmount, maxHp: maxAmount, amount: maxAmount
+    } as Resource);
+  };
+  bases.forEach(({ position }) => {
+    const toward = Math.atan2(center.y - position.y, center.x - position.x);
+    const deposit = (type: ResourceType, angle: number) => {
+      for (let dist = 170; dist <= 210; dist += 40) {
+        createMine(position.x + Math.round(Math.cos(angle) * dist), position.y + Math.round(Math.sin(angle) * dist), type);
+      }
+    };
+    deposit(ResourceType.Stone, toward + Math.PI / 3);
+    deposit(ResourceType.Gold, toward - Math.PI / 3);
+  });
+  for (let i = 0; i < bases.length; i++) {
+    const x = random(state) * (MAP_WIDTH - 800) + 400;
+    const y = random(state) * (MAP_HEIGHT - 800) + 400;
+    createMine(x, y, i % 2 === 0 ? ResourceType.Gold : ResourceType.Stone);
+  }
+
+  updateVisibility(state);
+  return state;
+};
@@ -0,0 +1,475 @@
+import {
+  GameState,
+  NEUTRAL,
+  EntityType,
+  Unit,
+  Building,
+  GameEntity,
+  ResourceType,
+  Resource,
+  Projectile,
+  Command,
+  RejectedCommand,
+  PlayerId,
+  UnitTypeId,
+  BuildingTypeId,
+  DamageType,
+  Vector2D,
+  UnitStance,
+} from '../types';
+import {
+  BASE_POPULATION,
+  GATHER_RATE,
+  FARM_GENERATION_RATE,
+  FARM_GENERATION_INTERVAL,
+  FARM_WORKER_BOOST,
+  FOG_UPDATE_TICKS,
+  BUILD_GRID_SIZE,
+  STANCES,
+  ATTACK_MOVE_ACQUIRE_RANGE,
+  GUARD_DISTANCE,
+} from '../constants';
+import { runAIControllers } from './aiController';
+import { applyCommand } from './commands';
+import { moveUnitTowards, resolveStaticCollisions } from './navigation';
+import { rebuildSpatialIndex, queryRadius, findNearest } from './spatialIndex';
+import { generateId, getDistance } from './utils';
+import { random } from './rng';
+import { updateVisibility, isVisibleTo } from './visibility';
+import { getPlayerIds, areEnemies } from './players';
+import { getNodeResourceType, findNearestNode, startReturning, resumeGathering } from './gathering';
+import { getBuildingDef, unitHasAbility, buildingHasAbility, MAX_UNIT_RADIUS } from './definitions';
+import { calculateDamage, getDamageType } from './combat';
+import { isProductionPaused, sendToRallyPoint } from './production';
+import { completeResearch, getUnitStats, getGatherBonus, getCarryCapacity, getFarmCapacity } from './techs';
+
+export interface StepOptions {
+  // Replays feed the AI's logged orders instead of running it
+  runAI?: boolean;
+}
+
+export interface StepResult {
+  applied: Command[]; // Accepted orders from every source, in application order
+  rejected: RejectedCommand[];
+}
+
+// --- POPULATION & WIN CHECK ---
+// Built buildings add their population room. A player without a capital
+// (Town Center) and with fewer than 5 entities left is defeated. The match ends when every surviving player is on one team.
+const updatePlayers = (state: GameState, entities: GameEntity[]) => {
+  getPlayerIds(state).forEach(p => {
+    const player = state.players[p];
+    const myEnts = entities.filter(e => e.owner === p);
+    const buildings = myEnts.filter(e => e.entityType === EntityType.Building) as Building[];
+    player.maxPopulation = buildings.reduce((sum, b) => b.isBuilt ? sum + getBuildingDef(b.buildingType).stats.population : sum, BASE_POPULATION);
+    player.population = myEnts.filter(e => e.entityType === EntityType.Unit).length;
+
+    const capitals = buildings.filter(b => buildingHasAbility(b.buildingType, 'capital')).length;
+    if (!player.defeated && capitals === 0 && myEnts.length < 5) player.defeated = true;
+  });
+
+  const aliveTeams = new Set(getPlayerIds(state).filter(p => !state.players[p].defeated).map(p => state.players[p].team));
+  if (aliveTeams.size <= 1) {
+    state.gameOver = true;
+    state.winner = aliveTeams.size === 1 ? [...aliveTeams][0] : null;
+  }
+};
+
+const fireProjectile = (
+  state: GameState, owner: PlayerId, from: Vector2D, target: GameEntity,
+  damage: number, damageType: DamageType, sourceType: UnitTypeId | BuildingTypeId
+) => {
+  const id = generateId(state);
+  state.entities[id] = {
+    id, entityType: EntityType.Projectile, owner,
+    position: { ...from }, radius: 2, hp: 1, maxHp: 1,
+    targetId: target.id, damage, damageType, sourceType, speed: 8
+  } as Projectile;
+};
+
+const isWallPiece = (b: Building) => buildingHasAbility(b.buildingType, 'wall') || buildingHasAbility(b.buildingType, 'gate');
+
+// --- BUILDINGS ---
+const updateBuilding = (state: GameState, b: Building, dt: number) => {
+  // Towers shoot the nearest enemy unit they can see
+  if (b.isBuilt && buildingHasAbility(b.buildingType, 'attack')) {
+    const { attackDamage, attackRange, attackCooldown } = getBuildingDef(b.buildingType).stats;
+    if (state.gameTime - (b.lastAttackTime || 0) > attackCooldown!) {
+      const enemy = findNearest(state, b.position, e =>
+        e.entityType === EntityType.Unit && areEnemies(state, b.owner, e.owner) && isVisibleTo(state, b.owner, e.position),
+        attackRange! + b.radius
+      );
+      if (enemy) {
+        b.lastAttackTime = state.gameTime;
+        fireProjectile(state, b.owner, b.position, enemy, attackDamage!, DamageType.Pierce, b.buildingType);
+      }
+    }
+  }
+
+  // Production Queue (held while the unit at the front has no room)
+  if (b.productionQueue.length > 0 && !isProductionPaused(state, b)) {
+    b.productionQueue[0].timeLeft -= dt;
+    if (b.productionQueue[0].timeLeft <= 0) {
+      const item = b.productionQueue.shift();
+      if (item?.tech) {
+        completeResearch(state, b.owner, item.tech);
+      } else if (item?.unitType) {
+        const stats = getUnitStats(state, b.owner, item.unitType);
+        // Rallied units come out on the side facing the rally point
+        const rally = b.rallyPoint;
+        const angle = rally ? Math.atan2(rally.position.y - b.position.y, rally.position.x - b.position.x) : random(state) * Math.PI * 2;
+        const spawnPos = { x: b.position.x + Math.cos(angle) * (b.radius + 15), y: b.position.y + Math.sin(angle) * (b.radius + 15) };
+        const id = generateId(state);
+        const unit = {
+          id, entityType: EntityType.Unit, unitType: item.unitType, owner: b.owner,
+          position: spawnPos, ...stats, maxHp: stats.hp,
+          state: 'IDLE', targetId: null, moveTarget: null, lastAttackTime: 0, carriedResources: 0,
+          stance: UnitStance.Aggressive
+        } as Unit;
+        state.entities[id] = unit;
+        // Counted now so a second building finishing this tick sees the cap
+        state.players[b.owner].population++;
+        sendToRallyPoint(state, b, unit);
+      }
+    }
+  }
+
+  // Farm Auto-Generation
+  if (buildingHasAbility(b.buildingType, 'farm') && b.isBuilt) {
+    if ((b.resourceAmount || 0) > 0) {
+      if (!b.lastGenerationTime) b.lastGenerationTime = state.gameTime;
+      if (state.gameTime - b.lastGenerationTime > FARM_GENERATION_INTERVAL) {
+        b.lastGenerationTime = state.gameTime;
+        b.resourceAmount = (b.resourceAmount || 0) - FARM_GENERATION_RATE;
+        state.players[b.owner].resources[ResourceType.Food] += FARM_GENERATION_RATE;
+      }
+    }
+  }
+};
+
+// --- PROJECTILES ---
+const updateProjectile = (state: GameState, p: Projectile, entitiesToRemove: string[]) => {
+  const target = state.entities[p.targetId];
+  if (target) {
+    const dist = getDistance(p.position, target.position);
+    if (dist < 10) {
+      // Arrows only hurt enemies of whoever fired them
+      if (areEnemies(state, p.owner, target.owner)) {
+        target.hp -= calculateDamage(p.damage, p.damageType, p.sourceType, target);
+        if (target.hp <= 0) entitiesToRemove.push(target.id);
+      }
+      entitiesToRemove.push(p.id);
+    } else {
+      const angle = Math.atan2(target.position.y - p.position.y, target.position.x - p.position.x);
+      p.position.x += Math.cos(angle) * p.speed;
+      p.position.y += Math.sin(angle) * p.speed;
+    }
+  } else {
+    entitiesToRemove.push(p.id);
+  }
+};
+
+// --- UNITS ---
+
+// How far the unit looks for a fight it was not ordered into. Only
+// Aggressive units look further while attack-moving or patrolling.
+const getAcquireRange = (unit: Unit) => {
+  if (unit.stance === UnitStance.Aggressive && unit.state === 'ATTACK_MOVING') return ATTACK_MOVE_ACQUIRE_RANGE;
+  return STANCES[unit.stance].acquireRange ?? unit.attackRange + unit.radius + MAX_UNIT_RADIUS;
+};
+
+// Where a chase is measured from: the guarded unit or building, or the spot
+// the unit picked the fight. Ordered attacks have no anchor.
+const getLeashAnchor = (state: GameState, unit: Unit): Vector2D | null => {
+  const charge = state.entities[unit.guardId || ''];
+  return charge ? charge.position : unit.leashOrigin ?? null;
+};
+
+// After a fight the unit picks up what it was doing. Attack-moves and
+// patrols carry on along their leg, keeping the spot the fight started so
+// an enemy beyond the leash is not picked up again. Guards go back to their
+// charge, and other leashed units walk back to where they stood.
+const endFight = (unit: Unit) => {
+  const origin = unit.leashOrigin;
+  unit.targetId = null;
+  if (unit.moveTarget) {
+    unit.state = 'ATTACK_MOVING';
+    return;
+  }
+  unit.leashOrigin = null;
+  if (!unit.guardId && origin && STANCES[unit.stance].leash !== null) {
+    unit.state = 'MOVING';
+    unit.moveTarget = { ...origin };
+  } else {
+    unit.state = 'IDLE';
+  }
+};
+
+// Guards walk back to their charge whenever they are not fighting
+const updateGuard = (state: GameState, unit: Unit) => {
+  const charge = state.entities[unit.guardId!];
+  if (!charge) {
+    unit.guardId = null;
+    return;
+  }
+  if (unit.state !== 'IDLE' && unit.state !== 'MOVING') return;
+  if (getDistance(unit.position, charge.position) > unit.radius + charge.radius + GUARD_DISTANCE) {
+    unit.state = 'MOVING';
+    unit.moveTarget = { ...charge.position };
+  } else if (unit.state === 'MOVING') {
+    unit.state = 'IDLE';
+    unit.moveTarget = null;
+  }
+};
+
+const updateUnit = (state: GameState, unit: Unit, entitiesToRemove: string[]) => {
+  const time = state.gameTime;
+
+  // Separation
+  let sepX = 0, sepY = 0;
+  queryRadius(state, unit.position, unit.radius + MAX_UNIT_RADIUS, e => e.entityType === EntityType.Unit).forEach(other => {
+    if (other.id !== unit.id) {
+      const d = getDistance(unit.position, other.position);
+      if (d < unit.radius + other.radius) {
+        const push = (unit.radius + other.radius - d) / 2;
+        const angle = Math.atan2(unit.position.y - other.position.y, unit.position.x - other.position.x);
+        sepX += Math.cos(angle) * push;
+        sepY += Math.sin(angle) * push;
+      }
+    }
+  });
+  unit.position.x += sepX * 0.1;
+  unit.position.y += sepY * 0.1;
+
+  if (unit.guardId) updateGuard(state, unit);
+
+  // Auto-Acquire Targets (nearest enemy in range; the stance sets the range).
+  // A leashed unit only picks enemies within its leash of the anchor. Once
+  // an attack-move or patrol has carried it twice the leash past the origin
+  // of its last fight, that origin no longer counts.
+  const acquireRange = getAcquireRange(unit);
+  if ((unit.state === 'IDLE' || unit.state === 'ATTACK_MOVING') && unit.owner !== NEUTRAL && acquireRange > 0) {
+    const leash = STANCES[unit.stance].leash;
+    if (unit.leashOrigin && (leash === null || getDistance(unit.position, unit.leashOrigin) > leash * 2)) unit.leashOrigin = null;
+    const anchor = leash ? getLeashAnchor(state, unit) : null;
+    const enemy = findNearest(state, unit.position, e =>
+      areEnemies(state, unit.owner, e.owner) && e.entityType !== EntityType.Resource &&
+      e.entityType !== EntityType.Projectile && isVisibleTo(state, unit.owner, e.position) &&
+      (!anchor || getDistance(anchor, e.position) < leash!),
+      acquireRange
+    );
+    if (enemy) {
+      if (unit.state === 'IDLE') unit.moveTarget = null;
+      unit.targetId = enemy.id;
+      unit.state = 'ATTACKING';
+      unit.leashOrigin = unit.leashOrigin ?? { ...unit.position };
+    }
+  }
+
+  let moveDest = unit.moveTarget;
+
+  if (unit.state === 'ATTACKING' || unit.state === 'GATHERING' || unit.state === 'RETURNING' || unit.state === 'BUILDING') {
+    const target = state.entities[unit.targetId || ''];
+    // Enemies that slip out of sight are lost, not tracked through the fog
+    const lost = target && unit.state === 'ATTACKING' &&
+      (!isVisibleTo(state, unit.owner, target.position) || !areEnemies(state, unit.owner, target.owner));
+    if (!target || lost) {
+      // A gatherer whose node or drop-off disappeared finds another one
+      if (unit.state === 'GATHERING') {
+        if (!startReturning(state, unit)) resumeGathering(state, unit);
+      } else if (unit.state === 'RETURNING') {
+        if (!startReturning(state, unit)) unit.state = 'IDLE';
+      } else if (unit.state === 'ATTACKING') {
+        endFight(unit);
+      } else {
+        unit.state = 'IDLE';
+        unit.targetId = null;
+      }
+    } else {
+      let range = 10;
+      if (unit.state === 'ATTACKING') range = unit.attackRange;
+      if (unit.state === 'GATHERING' || unit.state === 'RETURNING') range = 5;
+      if (unit.state === 'BUILDING') range = 10;
+
+      const dist = getDistance(unit.position, target.position);
+      if (dist <= range + target.radius + unit.radius && unit.state === 'RETURNING') {
+        // Drop-off: deposit the load and head back out
+        moveDest = null;
+        if (unit.gatherType && unit.carriedResources > 0) {
+          state.players[unit.owner].resources[unit.gatherType] += unit.carriedResources;
+          unit.carriedResources = 0;
+        }
+        resumeGathering(state, unit);
+      } else if (dist <= range + target.radius + unit.radius) {
+        moveDest = null;
+        if (time - unit.lastAttackTime > unit.attackCooldown) {
+          unit.lastAttackTime = time;
+
+          if (unit.state === 'ATTACKING') {
+            if (unitHasAbility(unit.unitType, 'ranged')) {
+              fireProjectile(state, unit.owner, unit.position, target, unit.attackDamage, getDamageType(unit.unitType), unit.unitType);
+            } else {
+              target.hp -= calculateDamage(unit.attackDamage, getDamageType(unit.unitType), unit.unitType, target);
+              if (target.hp <= 0) entitiesToRemove.push(target.id);
+            }
+          } else if (unit.state === 'GATHERING') {
+            const nodeType = getNodeResourceType(target);
+            // Switching to another resource drops whatever was carried
+            if (nodeType && unit.gatherType !== nodeType) {
+              unit.gatherType = nodeType;
+              unit.carriedResources = 0;
+            }
+            unit.gatherTargetId = target.id;
+            const capacity = getCarryCapacity(state, unit.owner);
+            const room = capacity - unit.carriedResources;
+
+            if (target.entityType === EntityType.Resource) {
+              const res = target as Resource;
+              if (res.amount > 0) {
+                const rate = GATHER_RATE + getGatherBonus(state, unit.owner, res.resourceType);
+                const amount = Math.min(rate, room, res.amount);
+                res.amount -= amount;
+                unit.carriedResources += amount;
+                if (res.amount <= 0) entitiesToRemove.push(res.id);
+              }
+            } else if (target.entityType === EntityType.Building && buildingHasAbility((target as Building).buildingType, 'farm')) {
+              // Working a Farm
+              const farm = target as Building;
+              if (farm.isBuilt && (farm.resourceAmount || 0) > 0) {
+                const rate = FARM_WORKER_BOOST + getGatherBonus(state, unit.owner, ResourceType.Food);
+                const amount = Math.min(rate, room, farm.resourceAmount || 0);
+                farm.resourceAmount = (farm.resourceAmount || 0) - amount;
+                unit.carriedResources += amount;
+              } else if (!startReturning(state, unit)) {
+                // Depleted farm and nothing to carry home: wait for a reseed order
+                unit.state = 'IDLE';
+                unit.targetId = null;
+              }
+            }
+
+            if (unit.state === 'GATHERING' && unit.carriedResources >= capacity) {
+              startReturning(state, unit);
+            } else if (unit.state === 'GATHERING' && target.entityType === EntityType.Resource && (target as Resource).amount <= 0) {
+              // Node exhausted mid-load: top up at the next one if it is close, else bring it home
+              const next = findNearestNode(state, unit.owner, unit.gatherType!, target.position);
+              if (next) {
+                unit.targetId = next.id;
+                unit.gatherTargetId = next.id;
+              } else if (!startReturning(state, unit)) {
+                unit.state = 'IDLE';
+                unit.targetId = null;
+              }
+            }
+          } else if (unit.state === 'BUILDING' && target.entityType === EntityType.Building) {
+            const b = target as Building;
+            // One builder finishes in the definition's build time, and
+            // repairs a finished building at the same rate
+            const buildTime = getBuildingDef(b.buildingType).cost.time * 1000;
+            const share = buildTime > 0 ? Math.min(1, unit.attackCooldown / buildTime) : 1;
+            if (b.isBuilt) {
+              b.hp = Math.min(b.maxHp, b.hp + share * b.maxHp);
+              if (b.hp >= b.maxHp) unit.state = 'IDLE';
+            } else {
+              b.constructionProgress += share * 100;
+              b.hp += share * b.maxHp;
+              if (b.constructionProgress >= 100) {
+                b.isBuilt = true;
+                b.hp = b.maxHp;
+                if (buildingHasAbility(b.buildingType, 'farm')) {
+                  b.resourceAmount = getFarmCapacity(state, b.owner);
+                  b.maxResourceAmount = b.resourceAmount;
+                }
+                unit.state = 'IDLE';
+                // Builders of a wall line move on to the next segment
+                const next = isWallPiece(b) && findNearest(state, b.position, e =>
+                  e.entityType === EntityType.Building && e.owner === unit.owner && !(e as Building).isBuilt && isWallPiece(e as Building),
+                  BUILD_GRID_SIZE * 3
+                );
+                if (next) {
+                  unit.state = 'BUILDING';
+                  unit.targetId = next.id;
+                }
+              }
+            }
+          }
+        }
+      } else {
+        // Chase: path towards the target until within range, or until the
+        // stance's leash runs out. Stand Ground has no leash to run out.
+        const leash = unit.state === 'ATTACKING' ? STANCES[unit.stance].leash : null;
+        const anchor = leash !== null ? getLeashAnchor(state, unit) : null;
+        if (anchor && getDistance(unit.position, anchor) >= leash!) {
+          moveDest = null;
+          endFight(unit);
+        } else {
+          moveDest = target.position;
+        }
+      }
+    }
+  }
+
+  if (moveDest) {
+    const arrived = moveUnitTowards(state, unit, moveDest);
+    if (arrived && moveDest === unit.moveTarget) {
+      unit.formationSpeed = null;
+      if (unit.patrolRoute && unit.state === 'ATTACK_MOVING') {
+        unit.patrolIndex = ((unit.patrolIndex ?? 0) + 1) % unit.patrolRoute.length;
+        unit.moveTarget = { ...unit.patrolRoute[unit.patrolIndex] };
+      }
+    }
+    if (arrived && !unit.targetId && unit.state === 'MOVING') unit.state = 'IDLE';
+  }
+
+  resolveStaticCollisions(state, unit);
+};
+
+// --- STEP ---
+// Advances the match by exactly one fixed tick. Pure with respect to the
+// outside world: no DOM, no timers, no React. Movement speeds are expressed
+// per tick, so dtFixed only drives timers (production, farms, cooldowns).
+// Commands are validated and applied at the start of the tick; the ones that
+// fail validation are returned with a reason.
+export const stepSimulation = (state: GameState, commands: Command[], dtFixed: number, options: StepOptions = {}): StepResult => {
+  const result: StepResult = { applied: [], rejected: [] };
+  if (state.gameOver) return result;
+
+  const submit = (command: Command) => {
+    const reason = applyCommand(state, command);
+    if (reason) result.rejected.push({ command, reason });
+    else result.applied.push(command);
+  };
+
+  rebuildSpatialIndex(state);
+  // Fog is refreshed before orders are validated, so an Attack on a unit that
+  // just walked out of sight is rejected consistently
+  if (state.tick % FOG_UPDATE_TICKS === 0) updateVisibility(state);
+  commands.forEach(submit);
+
+  // AI Update (throttled by each AI's reaction time)
+  if (options.runAI !== false) runAIControllers(state, submit);
+
+  const entities = Object.values(state.entities) as GameEntity[];
+  updatePlayers(state, entities);
+
+  const entitiesToRemove: string[] = [];
+
+  entities.forEach(entity => {
+    if (entity.entityType === EntityType.Building) {
+      updateBuilding(state, entity as Building, dtFixed);
+    } else if (entity.entityType === EntityType.Projectile) {
+      updateProjectile(state, entity as Projectile, entitiesToRemove);
+    } else if (entity.entityType === EntityType.Unit) {
+      updateUnit(state, entity as Unit, entitiesToRemove);
+    }
+  });
+
+  entitiesToRemove.forEach(id => {
+    const e = state.entities[id];
+    if (!e) return;
+    if (e.entityType === EntityType.Building || e.entityType === EntityType.Resource) state.navVersion++;
+    delete state.entities[id];
+  });
+  state.tick++;
+  state.gameTime += dtFixed;
+  return result;
+};
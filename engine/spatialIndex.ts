@@ -0,0 +1,130 @@
+import { GameState, GameEntity, Vector2D, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { SPATIAL_CELL_SIZE } from '../constants';
+
+// --- SPATIAL INDEX ---
+// Uniform grid of entity buckets. Rebuilt by the simulation at the start of
+// every tick (units move every tick, so incremental updates buy little), and
+// shared by the AI, combat and the renderer's hit-testing. Results reflect
+// positions at the start of the tick.
+
+export interface SpatialIndex {
+  tick: number;
+  cols: number;
+  rows: number;
+  cells: GameEntity[][];
+  maxRadius: number;
+}
+
+const indexCache = new WeakMap<GameState, SpatialIndex>();
+
+const toCol = (x: number, cols: number) => Math.max(0, Math.min(cols - 1, Math.floor(x / SPATIAL_CELL_SIZE)));
+
+const createIndex = (): SpatialIndex => {
+  const cols = Math.ceil(MAP_WIDTH / SPATIAL_CELL_SIZE);
+  const rows = Math.ceil(MAP_HEIGHT / SPATIAL_CELL_SIZE);
+  return { tick: -1, cols, rows, cells: Array.from({ length: cols * rows }, () => []), maxRadius: 0 };
+};
+
+export const rebuildSpatialIndex = (state: GameState): SpatialIndex => {
+  const index = indexCache.get(state) || createIndex();
+  index.cells.forEach(cell => { cell.length = 0; });
+  index.maxRadius = 0;
+  for (const id in state.entities) {
+    const e = state.entities[id];
+    index.cells[toCol(e.position.y, index.rows) * index.cols + toCol(e.position.x, index.cols)].push(e);
+    if (e.radius > index.maxRadius) index.maxRadius = e.radius;
+  }
+  index.tick = state.tick;
+  indexCache.set(state, index);
+  return index;
+};
+
+export const getSpatialIndex = (state: GameState): SpatialIndex => {
+  const index = indexCache.get(state);
+  return index && index.tick === state.tick ? index : rebuildSpatialIndex(state);
+};
+
+// Entities removed since the last rebuild are skipped
+const isAlive = (state: GameState, e: GameEntity) => state.entities[e.id] === e;
+
+// All entities whose centre lies within `radius` of `center`
+export const queryRadius = (
+  state: GameState,
+  center: Vector2D,
+  radius: number,
+  predicate?: (e: GameEntity) => boolean
+): GameEntity[] => {
+  const index = getSpatialIndex(state);
+  const result: GameEntity[] = [];
+  const minX = toCol(center.x - radius, index.cols), maxX = toCol(center.x + radius, index.cols);
+  const minY = toCol(center.y - radius, index.rows), maxY = toCol(center.y + radius, index.rows);
+  const r2 = radius * radius;
+
+  for (let cy = minY; cy <= maxY; cy++) {
+    for (let cx = minX; cx <= maxX; cx++) {
+      const cell = index.cells[cy * index.cols + cx];
+      for (let i = 0; i < cell.length; i++) {
+        const e = cell[i];
+        const dx = e.position.x - center.x, dy = e.position.y - center.y;
+        if (dx * dx + dy * dy <= r2 && isAlive(state, e) && (!predicate || predicate(e))) result.push(e);
+      }
+    }
+  }
+  return result;
+};
+
+// Closest entity matching `predicate`, searching rings of cells outwards
+// and stopping as soon as no closer match is possible.
+export const findNearest = (
+  state: GameState,
+  center: Vector2D,
+  predicate: (e: GameEntity) => boolean,
+  maxDistance = Infinity
+): GameEntity | null => {
+  const index = getSpatialIndex(state);
+  const ccx = toCol(center.x, index.cols), ccy = toCol(center.y, index.rows);
+  const maxRing = Math.max(index.cols, index.rows);
+  let best: GameEntity | null = null;
+  let bestD2 = maxDistance === Infinity ? Infinity : maxDistance * maxDistance;
+
+  for (let ring = 0; ring <= maxRing; ring++) {
+    // Anything in this ring is at least (ring - 1) cells away
+    const minRingDist = Math.max(0, ring - 1) * SPATIAL_CELL_SIZE;
+    if (minRingDist * minRingDist > bestD2) break;
+
+    for (let cy = ccy - ring; cy <= ccy + ring; cy++) {
+      if (cy < 0 || cy >= index.rows) continue;
+      for (let cx = ccx - ring; cx <= ccx + ring; cx++) {
+        if (cx < 0 || cx >= index.cols) continue;
+        if (Math.abs(cx - ccx) !== ring && Math.abs(cy - ccy) !== ring) continue;
+        const cell = index.cells[cy * index.cols + cx];
+        for (let i = 0; i < cell.length; i++) {
+          const e = cell[i];
+          const dx = e.position.x - center.x, dy = e.position.y - center.y;
+          const d2 = dx * dx + dy * dy;
+          if (d2 < bestD2 && isAlive(state, e) && predicate(e)) {
+            best = e;
+            bestD2 = d2;
+          }
+        }
+      }
+    }
+  }
+  return best;
+};
+
+// Entity under a world point, with `tolerance` extra pixels around its radius
+export const pickEntityAt = (state: GameState, point: Vector2D, tolerance: number, predicate?: (e: GameEntity) => boolean): GameEntity | null => {
+  const index = getSpatialIndex(state);
+  const candidates = queryRadius(state, point, index.maxRadius + tolerance, predicate);
+  let best: GameEntity | null = null;
+  let bestDist = Infinity;
+  candidates.forEach(e => {
+    const d = Math.hypot(e.position.x - point.x, e.position.y - point.y);
+    if (d < e.radius + tolerance && d < bestDist) {
+      best = e;
+      bestDist = d;
+    }
+  });
+  return best;
+};
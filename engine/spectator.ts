@@ -0,0 +1,88 @@
+import { GameState, PlayerId, GameEntity, EntityType, Unit, Building, UnitTypeId, BuildingTypeId, ProductionItem, ResourceAmounts, Command, Vector2D } from '../types';
+import { getPlayerIds } from './players';
+import { ReplayEntry } from './replay';
+import { getProductionTime } from './techs';
+import { getCostTotal } from './resources';
+import { getUnitDef, unitHasAbility } from './definitions';
+
+// --- SPECTATING ---
+// What an observer is shown of each player. Bots and remote humans have no
+// camera or selection to share, so following a player means following their
+// orders: the units of their latest order are the selection the view tracks.
+
+export interface ProductionSummary {
+  buildingId: string;
+  buildingType: BuildingTypeId;
+  queue: ProductionItem[];
+  progress: number; // 0 to 1, of the item in front
+}
+
+export interface PlayerSummary {
+  id: PlayerId;
+  color: number;
+  team: number;
+  defeated: boolean;
+  resources: ResourceAmounts;
+  population: number;
+  maxPopulation: number;
+  workers: number;
+  armyValue: number; // Resources spent on the living military units
+  production: ProductionSummary[];
+}
+
+export const getUnitValue = (type: UnitTypeId) => getCostTotal(getUnitDef(type).cost);
+
+export const summarizePlayer = (state: GameState, player: PlayerId): PlayerSummary => {
+  const { resources, population, maxPopulation, color, team, defeated } = state.players[player];
+  const summary: PlayerSummary = {
+    id: player, color, team, defeated,
+    resources: { ...resources }, population, maxPopulation,
+    workers: 0, armyValue: 0, production: []
+  };
+  (Object.values(state.entities) as GameEntity[]).forEach(e => {
+    if (e.owner !== player) return;
+    if (e.entityType === EntityType.Unit) {
+      const u = e as Unit;
+      if (unitHasAbility(u.unitType, 'gather')) summary.workers++;
+      else summary.armyValue += getUnitValue(u.unitType);
+    } else if (e.entityType === EntityType.Building) {
+      const b = e as Building;
+      if (b.productionQueue.length === 0) return;
+      const front = b.productionQueue[0];
+      summary.production.push({
+        buildingId: b.id,
+        buildingType: b.buildingType,
+        queue: b.productionQueue.map(q => ({ ...q })),
+        progress: 1 - front.timeLeft / getProductionTime(front)
+      });
+    }
+  });
+  return summary;
+};
+
+export const summarizePlayers = (state: GameState) => getPlayerIds(state).map(id => summarizePlayer(state, id));
+
+const commandSubjects = (command: Command): string[] => {
+  if ('unitIds' in command && command.unitIds.length > 0) return command.unitIds;
+  if ('buildingId' in command) return [command.buildingId];
+  return [];
+};
+
+// Living entities of the latest order `player` gave up to the current tick.
+// `commands` is a match's command log, in tick order.
+export const getOrderFocus = (state: GameState, commands: ReplayEntry[], player: PlayerId): string[] => {
+  for (let i = commands.length - 1; i >= 0; i--) {
+    const [tick, command] = commands[i];
+    if (tick > state.tick || command.player !== player) continue;
+    const alive = commandSubjects(command).filter(id => state.entities[id]);
+    if (alive.length > 0) return alive;
+  }
+  return [];
+};
+
+export const getCentroid = (state: GameState, ids: string[]): Vector2D | null => {
+  const entities = ids.map(id => state.entities[id]).filter(Boolean);
+  if (entities.length === 0) return null;
+  const sum = entities.reduce((acc, e) => ({ x: acc.x + e.position.x, y: acc.y + e.position.y }), { x: 0, y: 0 });
+  return { x: sum.x / entities.length, y: sum.y / entities.length };
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { UnitType, UnitStance, CommandType, Command, Vector2D } from '../types';
+import { SIM_DT, STANCES } from '../constants';
+import { createInitialState } from './setup';
+import { stepSimulation } from './simulation';
+import { updateVisibility } from './visibility';
+import { addUnit } from './testUtils';
+
+const SCOUT = 'SCOUT_CAVALRY';
+
+// A militia patrols along y = 1000 past a scout that will not fight back.
+// Once the militia has had time to engage, the scout runs off south.
+// Returns how far the militia strayed from its route.
+const patrolPastFleeingScout = (stance: UnitStance, scoutAt: Vector2D) => {
+  const state = createInitialState(1);
+  const militia = addUnit(state, UnitType.Militia, 'P1', { x: 700, y: 1000 });
+  const scout = addUnit(state, SCOUT, 'P2', scoutAt);
+  militia.stance = stance;
+  scout.stance = UnitStance.NoAttack;
+  scout.hp = scout.maxHp = 10000;
+  updateVisibility(state);
+
+  let fought = false;
+  let strayed = 0;
+  for (let i = 0; i < 900; i++) {
+    const commands: Command[] = [];
+    if (i === 0) commands.push({ type: CommandType.Patrol, player: 'P1', unitIds: [militia.id], waypoints: [{ x: 900, y: 1000 }, { x: 700, y: 1000 }] });
+    if (i === 60) commands.push({ type: CommandType.Move, player: 'P2', unitIds: [scout.id], target: { x: 800, y: 1900 } });
+    stepSimulation(state, commands, SIM_DT);
+    fought = fought || militia.targetId === scout.id;
+    strayed = Math.max(strayed, Math.abs(militia.position.y - 1000));
+  }
+  return { militia, fought, strayed };
+};
+
+describe('stances on patrol', () => {
+  it('let Defensive units chase only as far as their leash, then carry on', () => {
+    const { militia, fought, strayed } = patrolPastFleeingScout(UnitStance.Defensive, { x: 800, y: 1100 });
+    expect(fought).toBe(true);
+    expect(strayed).toBeLessThanOrEqual(STANCES[UnitStance.Defensive].leash!);
+    expect(militia.state).toBe('ATTACK_MOVING');
+    expect(militia.patrolRoute).toBeDefined();
+  });
+
+  it('keep Stand Ground units on their route while they fight', () => {
+    const { militia, fought, strayed } = patrolPastFleeingScout(UnitStance.StandGround, { x: 790, y: 1015 });
+    expect(fought).toBe(true);
+    expect(strayed).toBeLessThan(5);
+    expect(militia.state).toBe('ATTACK_MOVING');
+  });
+
+  it('do not pick fights from beyond the stance range', () => {
+    const { fought } = patrolPastFleeingScout(UnitStance.StandGround, { x: 800, y: 1100 });
+    expect(fought).toBe(false);
+  });
+});
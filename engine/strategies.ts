@@ -0,0 +1,78 @@
+import { AIStrategy, BuildOrderStep, TechType, ResourceType } from '../types';
+import { random, RandomSource } from './rng';
+import { isUnitType, isBuildingType } from './definitions';
+import rush from '../data/strategies/rush.json';
+import boom from '../data/strategies/boom.json';
+import turtle from '../data/strategies/turtle.json';
+
+// --- AI STRATEGIES ---
+// Build orders and attack plans live in data/strategies/*.json. They are
+// checked when this module loads, so a typo in a file fails at startup with
+// the file and field named instead of as a confused AI mid-match.
+
+export const RANDOM_STRATEGY = 'random';
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+const parseStep = (id: string, index: number, step: any): BuildOrderStep => {
+  const where = `Strategy "${id}", buildOrder[${index}]`;
+  if (!step || typeof step !== 'object') throw new Error(`${where}: expected an object`);
+  if ('research' in step) {
+    if (!Object.values(TechType).includes(step.research)) throw new Error(`${where}: unknown technology "${step.research}"`);
+    return { research: step.research };
+  }
+  if (!isNumber(step.count)) throw new Error(`${where}: "count" must be a number`);
+  if ('train' in step) {
+    if (!isUnitType(step.train)) throw new Error(`${where}: unknown unit "${step.train}"`);
+    return { train: step.train, count: step.count };
+  }
+  if ('build' in step) {
+    if (!isBuildingType(step.build)) throw new Error(`${where}: unknown building "${step.build}"`);
+    return { build: step.build, count: step.count };
+  }
+  throw new Error(`${where}: expected "train", "build" or "research"`);
+};
+
+export const parseStrategy = (id: string, data: any): AIStrategy => {
+  if (!data || typeof data !== 'object') throw new Error(`Strategy "${id}": expected an object`);
+  if (typeof data.name !== 'string') throw new Error(`Strategy "${id}": "name" must be a string`);
+  if (!Array.isArray(data.buildOrder)) throw new Error(`Strategy "${id}": "buildOrder" must be a list`);
+  const ratio = data.gatherRatio;
+  if (!ratio || typeof ratio !== 'object') throw new Error(`Strategy "${id}": "gatherRatio" must be an object of resource shares`);
+  const gatherRatio: AIStrategy['gatherRatio'] = {};
+  Object.entries(ratio).forEach(([type, share]) => {
+    if (!Object.values(ResourceType).includes(type as ResourceType)) throw new Error(`Strategy "${id}": unknown resource "${type}" in "gatherRatio"`);
+    if (!isNumber(share)) throw new Error(`Strategy "${id}": "gatherRatio.${type}" must be a non-negative number`);
+    gatherRatio[type as ResourceType] = share;
+  });
+  if (Object.values(gatherRatio).reduce((sum, share) => sum + share, 0) <= 0) {
+    throw new Error(`Strategy "${id}": "gatherRatio" needs at least one positive share`);
+  }
+  const attack = data.attack;
+  if (!attack || !isNumber(attack.waveSize) || !isNumber(attack.firstWaveAt)) {
+    throw new Error(`Strategy "${id}": "attack" needs "waveSize" and "firstWaveAt" (seconds)`);
+  }
+  return {
+    name: data.name,
+    buildOrder: data.buildOrder.map((step: any, i: number) => parseStep(id, i, step)),
+    gatherRatio,
+    attack: { waveSize: attack.waveSize, firstWaveAt: attack.firstWaveAt }
+  };
+};
+
+export const AI_STRATEGIES: Record<string, AIStrategy> = {
+  rush: parseStrategy('rush', rush),
+  boom: parseStrategy('boom', boom),
+  turtle: parseStrategy('turtle', turtle),
+};
+
+// Unknown names (e.g. from a save made with other data files) play the boom
+export const getStrategy = (id: string) => AI_STRATEGIES[id] || AI_STRATEGIES.boom;
+
+// Resolves a slot's strategy setting. Always draws once from `rng`, so the
+// AI's random stream does not depend on whether the strategy was fixed.
+export const pickStrategy = (setting: string | undefined, rng: RandomSource) => {
+  const ids = Object.keys(AI_STRATEGIES);
+  const roll = ids[Math.floor(random(rng) * ids.length)];
+  return setting && setting !== RANDOM_STRATEGY ? setting : roll;
+};
@@ -0,0 +1,100 @@
+import {
+  GameState,
+  PlayerId,
+  EntityType,
+  UnitTypeId,
+  Unit,
+  Building,
+  TechType,
+  EconomyStat,
+  ResourceType,
+  ProductionItem,
+} from '../types';
+import { TECHS, CARRY_CAPACITY, FARM_MAX_FOOD } from '../constants';
+import { getUnitDef, getBuildingDef, buildingHasAbility } from './definitions';
+
+// Researched technologies of a player. Defeated or unknown players have none.
+const getTechs = (state: GameState, player: PlayerId): TechType[] => state.players[player]?.techs || [];
+
+// Sum of everything the player's research adds to an economy value
+export const getEconomyBonus = (state: GameState, player: PlayerId, stat: EconomyStat) => {
+  return getTechs(state, player).reduce((sum, tech) =>
+    sum + TECHS[tech].modifiers.reduce((n, m) => m.stat === stat ? n + m.add : n, 0), 0);
+};
+
+// Base stats of a unit type with the player's research applied
+export const getUnitStats = (state: GameState, player: PlayerId, type: UnitTypeId) => {
+  const stats = { ...getUnitDef(type).stats };
+  getTechs(state, player).forEach(tech => TECHS[tech].modifiers.forEach(m => {
+    if ('units' in m && m.units.includes(type)) stats[m.stat] += m.add;
+  }));
+  return stats;
+};
+
+const GATHER_RATE_STATS: Record<ResourceType, EconomyStat> = {
+  [ResourceType.Wood]: 'woodGatherRate',
+  [ResourceType.Food]: 'foodGatherRate',
+  [ResourceType.Stone]: 'stoneGatherRate',
+  [ResourceType.Gold]: 'goldGatherRate',
+};
+
+// Extra amount per gather cycle for this resource
+export const getGatherBonus = (state: GameState, player: PlayerId, type: ResourceType) => getEconomyBonus(state, player, GATHER_RATE_STATS[type]);
+
+export const getCarryCapacity = (state: GameState, player: PlayerId) => CARRY_CAPACITY + getEconomyBonus(state, player, 'carryCapacity');
+
+export const getFarmCapacity = (state: GameState, player: PlayerId) => FARM_MAX_FOOD + getEconomyBonus(state, player, 'farmFood');
+
+// Queued anywhere by the player, including the item in progress
+export const isResearching = (state: GameState, player: PlayerId, tech: TechType) => {
+  return Object.values(state.entities).some(e =>
+    e.entityType === EntityType.Building && e.owner === player && (e as Building).productionQueue.some(q => q.tech === tech)
+  );
+};
+
+// Why the tech cannot be queued at this building, ignoring cost
+export const getResearchBlocker = (state: GameState, player: PlayerId, building: Building, tech: TechType): string | null => {
+  const def = TECHS[tech];
+  if (def.building !== building.buildingType) return `Researched at the ${getBuildingDef(def.building).name}`;
+  if (getTechs(state, player).includes(tech)) return 'Already researched';
+  if (isResearching(state, player, tech)) return 'Already being researched';
+  const missing = def.requires.find(t => !getTechs(state, player).includes(t));
+  if (missing) return `Requires ${TECHS[missing].name}`;
+  return null;
+};
+
+// Applies a finished research: existing units and farms pick up the new
+// values right away, later ones get them through getUnitStats and getFarmCapacity
+export const completeResearch = (state: GameState, player: PlayerId, tech: TechType) => {
+  const techs = getTechs(state, player);
+  if (techs.includes(tech)) return;
+  techs.push(tech);
+
+  TECHS[tech].modifiers.forEach(m => {
+    Object.values(state.entities).forEach(e => {
+      if (e.owner !== player) return;
+      if ('units' in m && e.entityType === EntityType.Unit && m.units.includes((e as Unit).unitType)) {
+        const unit = e as Unit;
+        if (m.stat === 'hp') {
+          unit.maxHp += m.add;
+          unit.hp += m.add;
+        } else {
+          unit[m.stat] += m.add;
+        }
+      }
+      if (m.stat === 'farmFood' && e.entityType === EntityType.Building && buildingHasAbility((e as Building).buildingType, 'farm')) {
+        const farm = e as Building;
+        if (farm.maxResourceAmount === undefined) return;
+        farm.maxResourceAmount += m.add;
+        // Depleted farms get the new amount when reseeded
+        if ((farm.resourceAmount || 0) > 0) farm.resourceAmount = (farm.resourceAmount || 0) + m.add;
+      }
+    });
+  });
+};
+
+// Total time of a production item, for progress bars
+export const getProductionTime = (item: ProductionItem) => {
+  if (item.tech) return TECHS[item.tech].cost.time * 1000;
+  return item.unitType ? getUnitDef(item.unitType).cost.time * 1000 : 0;
+};
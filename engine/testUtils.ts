@@ -0,0 +1,28 @@
+import { GameState, EntityType, Unit, Building, UnitTypeId, BuildingTypeId, PlayerId, Vector2D, UnitStance } from '../types';
+import { getUnitStats } from './techs';
+import { getBuildingDef } from './definitions';
+import { generateId } from './utils';
+
+// --- TEST FIXTURES ---
+// Entities dropped straight into a state, idle and at full health, with the
+// owner's researched stats.
+
+export const addUnit = (state: GameState, unitType: UnitTypeId, owner: PlayerId, position: Vector2D = { x: 1000, y: 1000 }) => {
+  const stats = getUnitStats(state, owner, unitType);
+  const unit = {
+    id: generateId(state), entityType: EntityType.Unit, unitType, owner, position, ...stats, maxHp: stats.hp,
+    state: 'IDLE', targetId: null, moveTarget: null, lastAttackTime: 0, carriedResources: 0, stance: UnitStance.Aggressive
+  } as Unit;
+  state.entities[unit.id] = unit;
+  return unit;
+};
+
+export const addBuilding = (state: GameState, buildingType: BuildingTypeId, owner: PlayerId, position: Vector2D = { x: 1000, y: 1000 }) => {
+  const { stats } = getBuildingDef(buildingType);
+  const building = {
+    id: generateId(state), entityType: EntityType.Building, buildingType, owner, position,
+    radius: stats.radius, hp: stats.hp, maxHp: stats.hp, isBuilt: true, constructionProgress: 100, productionQueue: []
+  } as Building;
+  state.entities[building.id] = building;
+  return building;
+};
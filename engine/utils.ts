@@ -0,0 +1,9 @@
+import { GameState, Vector2D } from '../types';
+
+// Monotonic per-match IDs. The 'e' prefix keeps object key order equal to
+// insertion order (integer-like keys would be sorted numerically).
+export const generateId = (state: GameState) => `e${state.nextEntityId++}`;
+
+export const getDistance = (p1: Vector2D, p2: Vector2D) => {
+  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+};
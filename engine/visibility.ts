@@ -0,0 +1,136 @@
+import {
+  GameState,
+  PlayerId,
+  NEUTRAL,
+  EntityType,
+  GameEntity,
+  Building,
+  Unit,
+  Vector2D,
+  MAP_WIDTH,
+  MAP_HEIGHT,
+} from '../types';
+import { FOG_TILE_SIZE } from '../constants';
+import { getBuildingDef } from './definitions';
+import { areAllies } from './players';
+
+// --- FOG OF WAR ---
+// Each player has a tile map stored on GameState.fog. Tiles go from
+// Unexplored to Visible while inside someone's sight radius, and drop back to
+// Explored (never Unexplored) once nobody is looking. Allies share vision.
+
+export enum TileVisibility {
+  Unexplored = 0,
+  Explored = 1,
+  Visible = 2
+}
+
+export const FOG_COLS = Math.ceil(MAP_WIDTH / FOG_TILE_SIZE);
+export const FOG_ROWS = Math.ceil(MAP_HEIGHT / FOG_TILE_SIZE);
+
+// One map per player. Neutral has none and sees everything.
+export const createFog = (players: PlayerId[]): GameState['fog'] => {
+  const fog: GameState['fog'] = {};
+  players.forEach(id => { fog[id] = new Array(FOG_COLS * FOG_ROWS).fill(TileVisibility.Unexplored); });
+  return fog;
+};
+
+const tileIndex = (p: Vector2D) => {
+  const tx = Math.max(0, Math.min(FOG_COLS - 1, Math.floor(p.x / FOG_TILE_SIZE)));
+  const ty = Math.max(0, Math.min(FOG_ROWS - 1, Math.floor(p.y / FOG_TILE_SIZE)));
+  return ty * FOG_COLS + tx;
+};
+
+export const tileCenter = (index: number): Vector2D => ({
+  x: (index % FOG_COLS) * FOG_TILE_SIZE + FOG_TILE_SIZE / 2,
+  y: Math.floor(index / FOG_COLS) * FOG_TILE_SIZE + FOG_TILE_SIZE / 2
+});
+
+export const getSightRadius = (e: GameEntity) => {
+  if (e.entityType === EntityType.Unit) return (e as Unit).sightRadius;
+  if (e.entityType === EntityType.Building) {
+    const b = e as Building;
+    // Foundations only see their own footprint
+    return b.isBuilt ? getBuildingDef(b.buildingType).stats.sightRadius : b.radius;
+  }
+  return 0;
+};
+
+export const getTileVisibility = (state: GameState, player: PlayerId, p: Vector2D): TileVisibility => {
+  const fog = state.fog[player];
+  if (player === NEUTRAL || !fog) return TileVisibility.Visible;
+  return fog[tileIndex(p)];
+};
+
+export const isVisibleTo = (state: GameState, player: PlayerId, p: Vector2D) => {
+  return getTileVisibility(state, player, p) === TileVisibility.Visible;
+};
+
+export const isExploredBy = (state: GameState, player: PlayerId, p: Vector2D) => {
+  return getTileVisibility(state, player, p) !== TileVisibility.Unexplored;
+};
+
+// Whether `player` may currently see this entity. Resources and other
+// static neutral objects stay on the map once their tile has been explored.
+export const canSee = (state: GameState, player: PlayerId, e: GameEntity) => {
+  if (e.owner !== NEUTRAL && areAllies(state, player, e.owner)) return true;
+  if (e.entityType === EntityType.Resource) return isExploredBy(state, player, e.position);
+  return isVisibleTo(state, player, e.position);
+};
+
+export const updateVisibility = (state: GameState) => {
+  const players = Object.keys(state.fog);
+  players.forEach(player => {
+    const fog = state.fog[player];
+    for (let i = 0; i < fog.length; i++) {
+      if (fog[i] === TileVisibility.Visible) fog[i] = TileVisibility.Explored;
+    }
+  });
+
+  // Fog maps every owner's sight is written to: their own and their allies'
+  const sharedWith: Record<PlayerId, number[][]> = {};
+  players.forEach(owner => {
+    sharedWith[owner] = players.filter(p => areAllies(state, owner, p)).map(p => state.fog[p]);
+  });
+
+  for (const id in state.entities) {
+    const e = state.entities[id];
+    const fogs = sharedWith[e.owner];
+    if (!fogs) continue;
+    const sight = getSightRadius(e);
+    if (sight <= 0) continue;
+
+    const minX = Math.max(0, Math.floor((e.position.x - sight) / FOG_TILE_SIZE));
+    const maxX = Math.min(FOG_COLS - 1, Math.floor((e.position.x + sight) / FOG_TILE_SIZE));
+    const minY = Math.max(0, Math.floor((e.position.y - sight) / FOG_TILE_SIZE));
+    const maxY = Math.min(FOG_ROWS - 1, Math.floor((e.position.y + sight) / FOG_TILE_SIZE));
+    const s2 = sight * sight;
+
+    for (let ty = minY; ty <= maxY; ty++) {
+      for (let tx = minX; tx <= maxX; tx++) {
+        const cx = tx * FOG_TILE_SIZE + FOG_TILE_SIZE / 2 - e.position.x;
+        const cy = ty * FOG_TILE_SIZE + FOG_TILE_SIZE / 2 - e.position.y;
+        if (cx * cx + cy * cy <= s2) {
+          for (let f = 0; f < fogs.length; f++) fogs[f][ty * FOG_COLS + tx] = TileVisibility.Visible;
+        }
+      }
+    }
+  }
+};
+
+// Closest unexplored tile centre, used by the AI to pick scouting targets.
+// With `home` set, tiles further from home are preferred so scouts push
+// outwards instead of circling the base.
+export const findNearestUnexplored = (state: GameState, player: PlayerId, from: Vector2D, home?: Vector2D): Vector2D | null => {
+  const fog = state.fog[player];
+  let best = -1;
+  let bestScore = Infinity;
+  for (let i = 0; i < fog.length; i++) {
+    if (fog[i] !== TileVisibility.Unexplored) continue;
+    const c = tileCenter(i);
+    let score = Math.hypot(c.x - from.x, c.y - from.y);
+    if (home) score -= Math.hypot(c.x - home.x, c.y - home.y) * 0.5;
+    if (score < bestScore) { bestScore = score; best = i; }
+  }
+  return best >= 0 ? tileCenter(best) : null;
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { Camera, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { EDGE_SCROLL_THRESHOLD, EDGE_SCROLL_SPEED } from '../constants';
+
+// Tracks keyboard and mouse position; the returned function pans a camera
+// once per frame (edge scroll + WASD/arrows) and clamps it to the map.
+export const useCameraControls = () => {
+  const mouseRef = useRef({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+  const keysRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+        mouseRef.current = { x: e.clientX, y: e.clientY };
+    };
+    const handleKeyDown = (e: KeyboardEvent) => keysRef.current.add(e.code);
+    const handleKeyUp = (e: KeyboardEvent) => keysRef.current.delete(e.code);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    
+    return () => {
+        window.removeEventListener('mousemove', handleMouseMove);
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const scrollCamera = (cam: Camera) => {
+      const mouse = mouseRef.current;
+      const keys = keysRef.current;
+      
+      let dx = 0;
+      let dy = 0;
+
+      if (keys.has('KeyA') || keys.has('ArrowLeft') || mouse.x < EDGE_SCROLL_THRESHOLD) dx -= EDGE_SCROLL_SPEED;
+      if (keys.has('KeyD') || keys.has('ArrowRight') || mouse.x > window.innerWidth - EDGE_SCROLL_THRESHOLD) dx += EDGE_SCROLL_SPEED;
+      if (keys.has('KeyW') || keys.has('ArrowUp') || mouse.y < EDGE_SCROLL_THRESHOLD) dy -= EDGE_SCROLL_SPEED;
+      if (keys.has('KeyS') || keys.has('ArrowDown') || mouse.y > window.innerHeight - EDGE_SCROLL_THRESHOLD) dy += EDGE_SCROLL_SPEED;
+
+      cam.x += dx;
+      cam.y += dy;
+      clampCamera(cam);
+  };
+
+  return scrollCamera;
+};
+
+// Allow the camera *center* to reach the edges of the map (0 to MAP_WIDTH).
+// Since cam.x + window.innerWidth/2 = CenterX,
+// Min CamX = 0 - window.innerWidth/2
+// Max CamX = MAP_WIDTH - window.innerWidth/2
+export const clampCamera = (cam: Camera) => {
+  const minX = -window.innerWidth / 2;
+  const maxX = MAP_WIDTH - window.innerWidth / 2;
+  const minY = -window.innerHeight / 2;
+  const maxY = MAP_HEIGHT - window.innerHeight / 2;
+
+  cam.x = Math.max(minX, Math.min(maxX, cam.x));
+  cam.y = Math.max(minY, Math.min(maxY, cam.y));
+};
+
+// Camera position that centres the view on a world point
+export const cameraCenteredOn = (x: number, y: number): Camera => ({
+  x: x - window.innerWidth / 2,
+  y: y - window.innerHeight / 2
+});
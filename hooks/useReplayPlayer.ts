@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { GameState } from '../types';
+import { SIM_DT, START_POSITIONS } from '../constants';
+import { Replay, createReplayPlayback } from '../engine/replay';
+import { getLocalSlot } from '../engine/players';
+import { useCameraControls, cameraCenteredOn } from './useCameraControls';
+
+// Drives a replay through the engine at a variable speed. Exposes the same
+// stateRef/gameState pair as useGameEngine so GameMap and HUD can render it.
+export const useReplayPlayer = (replay: Replay) => {
+  const start = START_POSITIONS[getLocalSlot(replay.setup)];
+  const playbackRef = useRef(createReplayPlayback(replay, cameraCenteredOn(start.x, start.y)));
+  const stateRef = useRef<GameState>(playbackRef.current.getState());
+  const [gameState, setGameState] = useState<GameState>(stateRef.current);
+
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const playingRef = useRef(playing);
+  const speedRef = useRef(speed);
+  playingRef.current = playing;
+  speedRef.current = speed;
+
+  const scrollCamera = useCameraControls();
+
+  const seek = (tick: number) => {
+    playbackRef.current.seek(tick);
+    stateRef.current = playbackRef.current.getState();
+    setGameState({ ...stateRef.current });
+  };
+
+  // --- SYNC LOOP ---
+  useEffect(() => {
+    const syncInterval = setInterval(() => {
+      setGameState({ ...stateRef.current });
+    }, 100);
+    return () => clearInterval(syncInterval);
+  }, []);
+
+  // --- PLAYBACK LOOP ---
+  useEffect(() => {
+    let lastTime = performance.now();
+    let accumulator = 0;
+    let frameId: number;
+
+    const loop = (time: number) => {
+      const frameDt = time - lastTime;
+      lastTime = time;
+
+      const playback = playbackRef.current;
+      scrollCamera(playback.getState().camera);
+
+      if (playingRef.current) {
+        accumulator += frameDt * speedRef.current;
+        const ticks = Math.floor(accumulator / SIM_DT);
+        accumulator -= ticks * SIM_DT;
+        playback.advance(ticks);
+        if (playback.getState().tick >= replay.endTick) setPlaying(false);
+      } else {
+        accumulator = 0;
+      }
+      stateRef.current = playback.getState();
+
+      frameId = requestAnimationFrame(loop);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return { gameState, stateRef, playing, setPlaying, speed, setSpeed, seek };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect, useRef, MutableRefObject } from 'react';
+import { GameState, PlayerId, NEUTRAL } from '../types';
+import { SPECTATOR_CAMERA_EASE } from '../constants';
+import { ReplayEntry } from '../engine/replay';
+import { getOrderFocus, getCentroid } from '../engine/spectator';
+import { cameraCenteredOn, clampCamera } from './useCameraControls';
+
+// Observer perspective shared by live spectating and replays. Following a
+// player shows their fog of war, selects the units of their latest order and
+// eases the camera toward them; the free camera sees the whole map and is
+// scrolled by hand.
+export const useSpectator = (
+  stateRef: MutableRefObject<GameState>,
+  getCommands: () => ReplayEntry[],
+  initialFollow: PlayerId | null = null
+) => {
+  const [follow, setFollow] = useState<PlayerId | null>(initialFollow);
+  const followRef = useRef(follow);
+  followRef.current = follow;
+  const getCommandsRef = useRef(getCommands);
+  getCommandsRef.current = getCommands;
+
+  const changeFollow = (player: PlayerId | null) => {
+    stateRef.current.selectedEntityIds = [];
+    setFollow(player);
+  };
+
+  useEffect(() => {
+    let frameId: number;
+    const loop = () => {
+      frameId = requestAnimationFrame(loop);
+      const player = followRef.current;
+      if (!player) return;
+      const state = stateRef.current;
+      const focus = getOrderFocus(state, getCommandsRef.current(), player);
+      if (focus.length === 0) return;
+      state.selectedEntityIds = focus;
+      const center = getCentroid(state, focus)!;
+      const target = cameraCenteredOn(center.x, center.y);
+      state.camera.x += (target.x - state.camera.x) * SPECTATOR_CAMERA_EASE;
+      state.camera.y += (target.y - state.camera.y) * SPECTATOR_CAMERA_EASE;
+      clampCamera(state.camera);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  // Neutral sees every tile
+  return { follow, setFollow: changeFollow, viewAs: follow ?? NEUTRAL };
+};
@@ -0,0 +1,102 @@
+import { Command, MatchSetup } from '../types';
+import { RECONNECT_INTERVAL } from '../constants';
+import { ClientMessage, ServerMessage, MatchStart, TurnInput } from './protocol';
+
+// --- RELAY CLIENT ---
+// Connection to the relay shared by the browser and the headless client.
+// Sockets are created through `createSocket`, so the browser WebSocket and
+// the `ws` package both fit. A lost connection is retried with the same
+// client id until `close()`; the relay then answers with a `resume`.
+
+// The subset of the WebSocket API used here
+export interface SocketLike {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+}
+
+const SOCKET_OPEN = 1;
+
+export type NetEvent = ServerMessage | { type: 'connection'; connected: boolean };
+
+export interface NetClientOptions {
+  url: string;
+  room: string;
+  name: string;
+  clientId: string;
+  spectator?: boolean;
+  createSocket: (url: string) => SocketLike;
+}
+
+export const createClientId = () => Math.random().toString(36).slice(2, 10);
+
+export const createNetClient = ({ url, room, name, clientId, spectator = false, createSocket }: NetClientOptions) => {
+  const listeners = new Set<(event: NetEvent) => void>();
+  let socket: SocketLike | null = null;
+  let closed = false;
+  let lobby: Extract<ServerMessage, { type: 'lobby' }> | null = null;
+  let start: MatchStart | null = null;
+  // Inputs of the current match, kept so a game mounting late misses none
+  let turns: TurnInput[] = [];
+  let completeTurns = 0;
+
+  const emit = (event: NetEvent) => listeners.forEach(listener => listener(event));
+
+  const send = (message: ClientMessage) => {
+    if (socket && socket.readyState === SOCKET_OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const connect = () => {
+    const current = createSocket(url);
+    socket = current;
+    current.onopen = () => {
+      send({ type: 'hello', room, clientId, name, spectator });
+      emit({ type: 'connection', connected: true });
+    };
+    current.onmessage = event => {
+      const message = JSON.parse(String(event.data)) as ServerMessage;
+      if (message.type === 'lobby') lobby = message;
+      if (message.type === 'start' || message.type === 'resume') {
+        start = message.start;
+        turns = message.type === 'resume' ? [...message.turns] : [];
+        completeTurns = message.type === 'resume' ? message.completeTurns : 0;
+      }
+      if (message.type === 'turn') turns.push({ turn: message.turn, player: message.player, commands: message.commands });
+      emit(message);
+    };
+    current.onclose = () => {
+      if (socket !== current) return;
+      socket = null;
+      emit({ type: 'connection', connected: false });
+      if (!closed) setTimeout(connect, RECONNECT_INTERVAL);
+    };
+  };
+
+  connect();
+
+  return {
+    clientId,
+    spectator,
+    getLobby: () => lobby,
+    getStart: () => start,
+    getTurns: () => turns,
+    getCompleteTurns: () => completeTurns,
+    subscribe(listener: (event: NetEvent) => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    configure: (setup: MatchSetup) => send({ type: 'configure', setup }),
+    startMatch: (seed: number) => send({ type: 'start', seed }),
+    sendTurn: (turn: number, commands: Command[]) => send({ type: 'turn', turn, commands }),
+    sendChecksum: (tick: number, hash: number) => send({ type: 'checksum', tick, hash }),
+    close() {
+      closed = true;
+      socket?.close();
+    }
+  };
+};
+
+export type NetClient = ReturnType<typeof createNetClient>;
@@ -0,0 +1,82 @@
+import { GameState, Command, PlayerId } from '../types';
+import { LOCKSTEP_TURN_TICKS, LOCKSTEP_INPUT_DELAY, CHECKSUM_INTERVAL } from '../constants';
+import { TurnInput } from './protocol';
+
+// --- LOCKSTEP ---
+// Every client runs the full simulation. Local orders are not applied
+// directly: they are sent to the relay for a turn LOCKSTEP_INPUT_DELAY turns
+// ahead, and a turn only starts once the relay has echoed the inputs of
+// every human player for it. Since all clients apply the same inputs on the
+// same tick, their states stay identical; checksums catch it when they don't.
+
+// FNV-1a over the simulated part of the state. View fields (camera,
+// selection, placement ghost) differ between clients and are left out.
+export const computeChecksum = (state: GameState) => {
+  const json = JSON.stringify([state.tick, state.rngState, state.nextEntityId, state.entities, state.players, state.ai]);
+  let hash = 2166136261;
+  for (let i = 0; i < json.length; i++) {
+    hash = Math.imul(hash ^ json.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+export interface LockstepOptions {
+  // Human players, in slot order; a turn waits for input from each of them
+  humans: PlayerId[];
+  sendTurn: (turn: number, commands: Command[]) => void;
+  sendChecksum: (tick: number, hash: number) => void;
+}
+
+export const createLockstep = ({ humans, sendTurn, sendChecksum }: LockstepOptions) => {
+  const inputs = new Map<number, Map<PlayerId, Command[]>>();
+  let pending: Command[] = [];
+  let sentThrough = LOCKSTEP_INPUT_DELAY - 1; // Earlier turns are empty for everyone
+  let completeTurns = 0; // Missing inputs before this turn are empty
+
+  // Inputs as echoed by the relay, including our own
+  const receive = ({ turn, player, commands }: TurnInput) => {
+    if (!inputs.has(turn)) inputs.set(turn, new Map());
+    inputs.get(turn)!.set(player, commands);
+  };
+
+  return {
+    // A local order, sent with the next turn that goes out
+    issue(command: Command) {
+      pending.push(command);
+    },
+
+    receive,
+
+    // The inputs a rejoining client is resumed with. The relay leaves out
+    // empty ones for turns every player has already sent.
+    receiveHistory(turns: TurnInput[], complete: number) {
+      turns.forEach(receive);
+      completeTurns = complete;
+    },
+
+    // Orders to apply on `tick`, or null while someone's input for the turn
+    // starting on it is still missing
+    commandsFor(tick: number): Command[] | null {
+      if (tick % LOCKSTEP_TURN_TICKS !== 0) return [];
+      const turn = tick / LOCKSTEP_TURN_TICKS;
+      if (sentThrough < turn + LOCKSTEP_INPUT_DELAY) {
+        sentThrough = turn + LOCKSTEP_INPUT_DELAY;
+        sendTurn(sentThrough, pending);
+        pending = [];
+      }
+      if (turn < LOCKSTEP_INPUT_DELAY) return [];
+
+      const received = inputs.get(turn);
+      if (turn >= completeTurns && (!received || humans.some(p => !received.has(p)))) return null;
+      inputs.delete(turn);
+      // Slot order, so every client submits them identically
+      return humans.flatMap(p => received?.get(p) ?? []);
+    },
+
+    afterStep(state: GameState) {
+      if (state.tick % CHECKSUM_INTERVAL === 0) sendChecksum(state.tick, computeChecksum(state));
+    }
+  };
+};
+
+export type Lockstep = ReturnType<typeof createLockstep>;
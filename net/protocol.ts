@@ -0,0 +1,46 @@
+import { Command, MatchSetup, PlayerId } from '../types';
+
+// --- RELAY PROTOCOL ---
+// JSON messages between the browser (or headless) clients and the relay in
+// server/relay.ts. The relay never simulates; it orders inputs, fills in for
+// dropped players and compares checksums.
+
+export interface LobbyMember {
+  clientId: string;
+  name: string;
+  connected: boolean;
+  spectator: boolean;
+}
+
+// Everything a client needs to build the opening position
+export interface MatchStart {
+  seed: number;
+  setup: MatchSetup;
+  assignments: Record<string, PlayerId>; // clientId -> player; spectators have none
+}
+
+export interface TurnInput {
+  turn: number;
+  player: PlayerId;
+  commands: Command[];
+}
+
+export type ClientMessage =
+  // Spectators may also join a match in progress
+  | { type: 'hello'; room: string; clientId: string; name: string; spectator: boolean }
+  | { type: 'configure'; setup: MatchSetup } // Host only
+  | { type: 'start'; seed: number } // Host only
+  | { type: 'turn'; turn: number; commands: Command[] }
+  | { type: 'checksum'; tick: number; hash: number };
+
+export type ServerMessage =
+  | { type: 'welcome'; clientId: string }
+  | { type: 'lobby'; hostId: string; members: LobbyMember[]; setup: MatchSetup | null }
+  | { type: 'start'; start: MatchStart }
+  // Sent to a client rejoining a match in progress: every input so far that
+  // carries orders. Inputs left out of turns before `completeTurns` are empty.
+  | { type: 'resume'; start: MatchStart; turns: TurnInput[]; completeTurns: number }
+  | ({ type: 'turn' } & TurnInput)
+  | { type: 'player-status'; player: PlayerId; status: 'disconnected' | 'reconnected' | 'dropped' }
+  | { type: 'desync'; tick: number }
+  | { type: 'error'; reason: string };
@@ -0,0 +1,85 @@
+// Benchmark: per-unit neighbour and nearest-enemy queries at 1,000+ entities,
+// brute force (the old full entity scans) versus the spatial index.
+// Run with `npm run bench`.
+import { EntityType, NEUTRAL, UnitType, Unit, GameEntity, GameState, MAP_WIDTH, MAP_HEIGHT } from '../types';
+import { SIM_DT } from '../constants';
+import { getUnitDef, MAX_UNIT_RADIUS } from '../engine/definitions';
+import { createInitialState } from '../engine/setup';
+import { stepSimulation } from '../engine/simulation';
+import { random } from '../engine/rng';
+import { generateId, getDistance } from '../engine/utils';
+import { rebuildSpatialIndex, queryRadius, findNearest } from '../engine/spatialIndex';
+
+const UNIT_COUNT = 1200;
+const ITERATIONS = 20;
+const ACQUIRE_RANGE = 150;
+
+const createScenario = (): GameState => {
+  const state = createInitialState(12345);
+  for (let i = 0; i < UNIT_COUNT; i++) {
+    const type = [UnitType.Peasant, UnitType.Militia, UnitType.Archer][i % 3];
+    const owner = i % 2 === 0 ? 'P1' : 'P2';
+    const id = generateId(state);
+    const stats = getUnitDef(type).stats;
+    state.entities[id] = {
+      id, entityType: EntityType.Unit, unitType: type, owner,
+      position: { x: random(state) * MAP_WIDTH, y: random(state) * MAP_HEIGHT },
+      ...stats, maxHp: stats.hp,
+      state: 'MOVING', targetId: null, moveTarget: null, lastAttackTime: 0, carriedResources: 0
+    } as Unit;
+  }
+  return state;
+};
+
+const isEnemyOf = (unit: Unit) => (e: GameEntity) =>
+  e.owner !== unit.owner && e.owner !== NEUTRAL && e.entityType !== EntityType.Resource;
+
+const bruteForce = (state: GameState) => {
+  const entities = Object.values(state.entities) as GameEntity[];
+  let neighbours = 0, acquired = 0;
+  entities.forEach(e => {
+    if (e.entityType !== EntityType.Unit) return;
+    const unit = e as Unit;
+    entities.forEach(other => {
+      if (other.id !== unit.id && other.entityType === EntityType.Unit && getDistance(unit.position, other.position) < unit.radius + other.radius) neighbours++;
+    });
+    const isEnemy = isEnemyOf(unit);
+    if (entities.find(other => isEnemy(other) && getDistance(unit.position, other.position) < ACQUIRE_RANGE)) acquired++;
+  });
+  return { neighbours, acquired };
+};
+
+const indexed = (state: GameState) => {
+  rebuildSpatialIndex(state);
+  let neighbours = 0, acquired = 0;
+  (Object.values(state.entities) as GameEntity[]).forEach(e => {
+    if (e.entityType !== EntityType.Unit) return;
+    const unit = e as Unit;
+    queryRadius(state, unit.position, unit.radius + MAX_UNIT_RADIUS, o => o.entityType === EntityType.Unit).forEach(other => {
+      if (other.id !== unit.id && getDistance(unit.position, other.position) < unit.radius + other.radius) neighbours++;
+    });
+    if (findNearest(state, unit.position, isEnemyOf(unit), ACQUIRE_RANGE)) acquired++;
+  });
+  return { neighbours, acquired };
+};
+
+const time = (label: string, fn: () => unknown) => {
+  fn(); // Warm up
+  const start = performance.now();
+  let result: unknown;
+  for (let i = 0; i < ITERATIONS; i++) result = fn();
+  const ms = (performance.now() - start) / ITERATIONS;
+  console.log(`${label.padEnd(12)} ${ms.toFixed(2).padStart(8)} ms/tick  ${JSON.stringify(result)}`);
+  return ms;
+};
+
+const state = createScenario();
+console.log(`Entities: ${Object.keys(state.entities).length} (${UNIT_COUNT} units)\n`);
+
+const naiveMs = time('brute force', () => bruteForce(state));
+const indexedMs = time('indexed', () => indexed(state));
+console.log(`\nQuery speedup: ${(naiveMs / indexedMs).toFixed(1)}x`);
+
+const stepStart = performance.now();
+for (let i = 0; i < ITERATIONS; i++) stepSimulation(state, [], SIM_DT);
+console.log(`Full simulation step: ${((performance.now() - stepStart) / ITERATIONS).toFixed(2)} ms/tick`);
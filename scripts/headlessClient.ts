@@ -0,0 +1,146 @@
+// Headless lockstep client: joins a relay room and plays its slot with the
+// standard AI, reporting checksums as it goes. Two of them exercise the relay
+// without a browser:
+//
+//   npm run relay
+//   npx tsx scripts/headlessClient.ts --room test --host --players 2
+//   npx tsx scripts/headlessClient.ts --room test
+//
+// Options: --url, --name, --seed, --ticks N (stop after N ticks),
+// --spectate (follow along without a slot, also into a running match),
+// --disconnect-at N (drop the socket once at tick N to test rejoining) and
+// --desync-at N (corrupt the local state at tick N to test desync detection).
+import WebSocket from 'ws';
+import { GameState, AIState, AIDifficulty, ControllerType, MatchSetup, PlayerId, ResourceType } from '../types';
+import { SIM_DT, RELAY_PORT, PLAYER_COLORS, AI_PROFILES } from '../constants';
+import { createInitialState } from '../engine/setup';
+import { stepSimulation } from '../engine/simulation';
+import { createSeed, deriveSeed } from '../engine/rng';
+import { createAIView, DEFAULT_AI_CONTROLLER } from '../engine/aiController';
+import { standardAI } from '../engine/ai';
+import { getHumanPlayers, slotOfPlayer } from '../engine/players';
+import { createNetClient, createClientId, SocketLike } from '../net/client';
+import { createLockstep, computeChecksum, Lockstep } from '../net/lockstep';
+import { MatchStart, TurnInput } from '../net/protocol';
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : fallback;
+};
+const flag = (name: string) => args.includes(`--${name}`);
+
+const url = option('url', `ws://localhost:${RELAY_PORT}`);
+const room = option('room', 'test');
+const name = option('name', `bot-${process.pid}`);
+const players = Number(option('players', '2'));
+const maxTicks = Number(option('ticks', '3600'));
+const disconnectAt = Number(option('disconnect-at', '-1'));
+const desyncAt = Number(option('desync-at', '-1'));
+const spectator = flag('spectate');
+
+// Every member is a human slot on its own team
+const hostSetup = (): MatchSetup => ({
+  slots: Array.from({ length: players }, (_, i) => ({ controller: ControllerType.Human, color: PLAYER_COLORS[i], team: i }))
+});
+
+let socket: SocketLike | null = null;
+const client = createNetClient({
+  url, room, name, clientId: createClientId(), spectator,
+  createSocket: target => {
+    socket = new WebSocket(target) as unknown as SocketLike;
+    return socket;
+  }
+});
+
+let match: { state: GameState; lockstep: Lockstep; player: PlayerId | undefined; memory: AIState } | null = null;
+let disconnected = false;
+let finished = false;
+
+const log = (text: string) => console.log(`[${name}] ${text}`);
+
+// Builds the opening position and replays every input received so far
+const begin = (start: MatchStart, turns: TurnInput[], completeTurns = 0) => {
+  const player = start.assignments[client.clientId];
+  const state = createInitialState(start.seed, start.setup);
+  const lockstep = createLockstep({
+    humans: getHumanPlayers(start.setup),
+    sendTurn: player ? client.sendTurn : () => {},
+    sendChecksum: (tick, hash) => {
+      client.sendChecksum(tick, hash);
+      log(`tick ${tick} checksum ${hash.toString(16)}`);
+    }
+  });
+  const memory: AIState = {
+    state: 'ECONOMY', nextBuildTime: 0, lastUpdateTime: 0, rngState: deriveSeed(start.seed, player ? slotOfPlayer(player) : 0),
+    knownEnemyBase: null, scoutId: null, controller: DEFAULT_AI_CONTROLLER, difficulty: AIDifficulty.Normal,
+    strategy: 'boom', buildOrderStep: 0, stepStartedAt: 0
+  };
+  lockstep.receiveHistory(turns, completeTurns);
+  match = { state, lockstep, player, memory };
+  log(`${player ? `playing ${player}` : 'spectating'}, seed ${start.seed}${turns.length > 0 ? `, resuming from ${turns.length} inputs` : ''}`);
+  advance();
+};
+
+// Steps the simulation as far as the received inputs allow
+const advance = () => {
+  if (!match || finished) return;
+  const { state, lockstep, player, memory } = match;
+  while (state.tick < maxTicks && !state.gameOver) {
+    const commands = lockstep.commandsFor(state.tick);
+    if (!commands) return;
+    stepSimulation(state, commands, SIM_DT);
+    lockstep.afterStep(state);
+
+    if (!player) continue;
+    if (state.tick === desyncAt) state.players[player].resources[ResourceType.Wood] += 1;
+    if (state.tick === disconnectAt && !disconnected) {
+      disconnected = true;
+      log('dropping the connection');
+      socket?.close();
+    }
+    if (state.gameTime - memory.lastUpdateTime >= AI_PROFILES[memory.difficulty].reactionTime) {
+      const view = createAIView(state, player, memory);
+      standardAI.update(view, memory).slice(0, view.commandBudget).forEach(lockstep.issue);
+      memory.lastUpdateTime = state.gameTime;
+    }
+  }
+  finished = true;
+  log(`finished at tick ${state.tick}, checksum ${computeChecksum(state).toString(16)}`);
+  client.close();
+};
+
+client.subscribe(event => {
+  switch (event.type) {
+    case 'lobby':
+      if (flag('host') && event.hostId === client.clientId && !event.setup) {
+        client.configure(hostSetup());
+      }
+      if (flag('host') && event.setup && event.members.filter(m => !m.spectator).length === players) {
+        client.startMatch(Number(option('seed', String(createSeed()))));
+      }
+      break;
+    case 'start':
+      begin(event.start, []);
+      break;
+    case 'resume':
+      begin(event.start, event.turns, event.completeTurns);
+      break;
+    case 'turn':
+      match?.lockstep.receive(event);
+      advance();
+      break;
+    case 'player-status':
+      log(`${event.player} ${event.status}`);
+      break;
+    case 'desync':
+      log(`DESYNC detected at tick ${event.tick}`);
+      break;
+    case 'error':
+      log(`relay error: ${event.reason}`);
+      break;
+    case 'connection':
+      log(event.connected ? 'connected' : 'connection lost');
+      break;
+  }
+});
@@ -0,0 +1,264 @@
+// Lockstep relay for online matches. Run with `npm run relay` (PORT overrides
+// the default port).
+//
+// Clients meet in rooms. The first to join hosts: it picks the setup and
+// starts the match, and each player gets a human slot in join order.
+// Spectators get no slot and may also join once the match runs. During
+// the match the relay forwards every turn input to everyone, sender included,
+// so all clients apply the same inputs in the same order. It never simulates;
+// it only compares the checksums the clients report.
+import { WebSocketServer, WebSocket } from 'ws';
+import { MatchSetup, PlayerId } from '../types';
+import { RELAY_PORT, RECONNECT_GRACE, CHECKSUM_INTERVAL, LOCKSTEP_INPUT_DELAY } from '../constants';
+import { getHumanPlayers, validateMatchSetup } from '../engine/players';
+import { ClientMessage, ServerMessage, MatchStart, TurnInput } from '../net/protocol';
+
+interface Member {
+  clientId: string;
+  name: string;
+  spectator: boolean;
+  socket: WebSocket | null;
+  dropTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  id: string;
+  hostId: string;
+  members: Member[];
+  setup: MatchSetup | null;
+  start: MatchStart | null;
+  turns: TurnInput[]; // Inputs with orders of complete turns, for clients that rejoin
+  pending: TurnInput[]; // Inputs of incomplete turns
+  received: Map<number, Set<PlayerId>>; // Who has sent which incomplete turn
+  turn: number; // The first turn still missing someone's input
+  dropped: Set<PlayerId>;
+  checksums: Map<number, number>;
+  desynced: boolean;
+}
+
+const CHECKSUM_HISTORY = CHECKSUM_INTERVAL * 20; // Ticks of checksums kept for late reporters
+
+const rooms = new Map<string, Room>();
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  room.members.forEach(m => send(m.socket, message));
+};
+
+const broadcastLobby = (room: Room) => {
+  broadcast(room, {
+    type: 'lobby', hostId: room.hostId, setup: room.setup,
+    members: room.members.map(m => ({ clientId: m.clientId, name: m.name, connected: !!m.socket, spectator: m.spectator }))
+  });
+};
+
+const playerOf = (room: Room, member: Member) => room.start?.assignments[member.clientId];
+
+// Records an input once per player and turn and forwards it to everyone.
+// Repeats (e.g. a rejoining client re-sending its turns) are ignored. Once
+// everyone has sent a turn only its inputs with orders are kept for
+// rejoining clients, who take the missing ones as empty.
+const acceptTurn = (room: Room, input: TurnInput) => {
+  if (input.turn < room.turn) return;
+  if (!room.received.has(input.turn)) room.received.set(input.turn, new Set());
+  const players = room.received.get(input.turn)!;
+  if (players.has(input.player)) return;
+  players.add(input.player);
+  room.pending.push(input);
+  broadcast(room, { type: 'turn', ...input });
+  const humans = room.start ? getHumanPlayers(room.start.setup).length : 0;
+  while (room.received.get(room.turn)?.size === humans) room.received.delete(room.turn++);
+  room.pending.filter(p => p.turn < room.turn && p.commands.length > 0).forEach(p => room.turns.push(p));
+  room.pending = room.pending.filter(p => p.turn >= room.turn);
+};
+
+// Clients may only send turns the match can be waiting on: no earlier than
+// the first incomplete turn and at most the input delay past it. Earlier
+// turns are complete already, so dropping them loses nothing.
+const isTurnInWindow = (room: Room, turn: number) => turn >= room.turn && turn <= room.turn + LOCKSTEP_INPUT_DELAY;
+
+const isValidTurn = (message: { turn: unknown; commands: unknown }) =>
+  Number.isInteger(message.turn) && Array.isArray(message.commands) &&
+  message.commands.every(c => !!c && typeof c === 'object');
+
+const isValidChecksum = (message: { tick: unknown; hash: unknown }) =>
+  Number.isInteger(message.tick) && (message.tick as number) >= 0 && Number.isInteger(message.hash);
+
+// A dropped player stops sending, so the relay sends their (empty) turns for
+// them. The rest of the match plays on without their orders.
+const fillDropped = (room: Room, turns: number[]) => {
+  room.dropped.forEach(player => {
+    turns.forEach(turn => acceptTurn(room, { turn, player, commands: [] }));
+  });
+};
+
+const handleChecksum = (room: Room, tick: number, hash: number) => {
+  const known = room.checksums.get(tick);
+  if (known === undefined) {
+    room.checksums.set(tick, hash);
+    room.checksums.forEach((_, t) => { if (t < tick - CHECKSUM_HISTORY) room.checksums.delete(t); });
+  } else if (known !== hash && !room.desynced) {
+    room.desynced = true;
+    console.warn(`Room ${room.id}: desync at tick ${tick}`);
+    broadcast(room, { type: 'desync', tick });
+  }
+};
+
+const startMatch = (room: Room, seed: number) => {
+  if (!room.setup) return 'Pick a setup first';
+  const players = room.members.filter(m => !m.spectator);
+  const invalid = validateMatchSetup(room.setup, players.length);
+  if (invalid) return invalid;
+  const humans = getHumanPlayers(room.setup);
+  const assignments: Record<string, PlayerId> = {};
+  players.forEach((m, i) => { assignments[m.clientId] = humans[i]; });
+  room.start = { seed, setup: room.setup, assignments };
+  broadcast(room, { type: 'start', start: room.start });
+  console.log(`Room ${room.id}: match started with ${players.length} players, seed ${seed}`);
+  return null;
+};
+
+const handleHello = (socket: WebSocket, room: string, clientId: string, name: string, spectator: boolean): { room: Room; member: Member } | null => {
+  let current = rooms.get(room);
+  if (!current) {
+    current = {
+      id: room, hostId: clientId, members: [], setup: null, start: null,
+      turns: [], pending: [], received: new Map(), turn: LOCKSTEP_INPUT_DELAY, dropped: new Set(), checksums: new Map(), desynced: false
+    };
+    rooms.set(room, current);
+  }
+
+  let member = current.members.find(m => m.clientId === clientId);
+  if (!member) {
+    if (current.start && !spectator) {
+      send(socket, { type: 'error', reason: 'This match has already started; join as a spectator to watch' });
+      return null;
+    }
+    member = { clientId, name, spectator, socket: null, dropTimer: null };
+    current.members.push(member);
+  }
+  if (member.socket && member.socket !== socket) member.socket.close(); // A stale connection of the same client
+  member.socket = socket;
+  if (member.dropTimer) clearTimeout(member.dropTimer);
+  member.dropTimer = null;
+
+  send(socket, { type: 'welcome', clientId });
+  broadcastLobby(current);
+  if (current.start) {
+    send(socket, { type: 'resume', start: current.start, turns: [...current.turns, ...current.pending], completeTurns: current.turn });
+    const player = playerOf(current, member);
+    if (player) {
+      // A dropped player may come back; turns already filled in for them stay empty
+      current.dropped.delete(player);
+      broadcast(current, { type: 'player-status', player, status: 'reconnected' });
+    }
+  }
+  return { room: current, member };
+};
+
+const handleClose = (room: Room, member: Member, socket: WebSocket) => {
+  if (member.socket !== socket) return;
+  member.socket = null;
+
+  // Before the match a leaver simply leaves, and so does a spectator
+  const player = playerOf(room, member);
+  if (!player) {
+    room.members = room.members.filter(m => m !== member);
+    if (room.members.length === 0) {
+      rooms.delete(room.id);
+      return;
+    }
+    if (room.hostId === member.clientId) room.hostId = room.members[0].clientId;
+    broadcastLobby(room);
+    return;
+  }
+
+  broadcast(room, { type: 'player-status', player, status: 'disconnected' });
+  broadcastLobby(room);
+  member.dropTimer = setTimeout(() => {
+    member.dropTimer = null;
+    if (room.members.every(m => !m.socket)) {
+      if (rooms.get(room.id) === room) {
+        rooms.delete(room.id);
+        console.log(`Room ${room.id}: closed, everyone left`);
+      }
+      return;
+    }
+    room.dropped.add(player);
+    broadcast(room, { type: 'player-status', player, status: 'dropped' });
+    fillDropped(room, [...room.received.keys()].sort((a, b) => a - b));
+  }, RECONNECT_GRACE);
+};
+
+const handleMessage = (room: Room, member: Member, message: ClientMessage) => {
+  const isHost = room.hostId === member.clientId;
+  switch (message.type) {
+    case 'configure':
+      if (!isHost || room.start) return;
+      room.setup = message.setup;
+      broadcastLobby(room);
+      return;
+    case 'start': {
+      if (!isHost || room.start) return;
+      const reason = startMatch(room, message.seed);
+      if (reason) send(member.socket, { type: 'error', reason });
+      return;
+    }
+    case 'turn': {
+      const player = playerOf(room, member);
+      if (!player || room.dropped.has(player)) return;
+      if (!isValidTurn(message)) {
+        send(member.socket, { type: 'error', reason: 'Malformed message' });
+        return;
+      }
+      if (!isTurnInWindow(room, message.turn)) return;
+      // Nobody gets to order someone else's units
+      const commands = message.commands.filter(c => c.player === player);
+      acceptTurn(room, { turn: message.turn, player, commands });
+      fillDropped(room, [message.turn]);
+      return;
+    }
+    case 'checksum':
+      if (!isValidChecksum(message)) {
+        send(member.socket, { type: 'error', reason: 'Malformed message' });
+        return;
+      }
+      if (room.start) handleChecksum(room, message.tick, message.hash);
+      return;
+  }
+};
+
+const port = Number(process.env.PORT) || RELAY_PORT;
+const server = new WebSocketServer({ port });
+
+server.on('connection', socket => {
+  let joined: { room: Room; member: Member } | null = null;
+
+  socket.on('message', data => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      send(socket, { type: 'error', reason: 'Malformed message' });
+      return;
+    }
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+      send(socket, { type: 'error', reason: 'Malformed message' });
+      return;
+    }
+    if (message.type === 'hello') {
+      if (!joined) joined = handleHello(socket, String(message.room), String(message.clientId), String(message.name), !!message.spectator);
+      return;
+    }
+    if (joined) handleMessage(joined.room, joined.member, message);
+  });
+
+  socket.on('close', () => {
+    if (joined) handleClose(joined.room, joined.member, socket);
+  });
+});
+
+console.log(`Relay listening on ws://localhost:${port}`);
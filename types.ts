@@ -1,7 +1,16 @@
-export enum PlayerType {
+// Players are slots 'P1'..'P8'; resources and other map features belong to NEUTRAL
+export type PlayerId = string;
+export const NEUTRAL: PlayerId = 'NEUTRAL';
+
+export enum ControllerType {
   Human = 'HUMAN',
-  AI = 'AI',
-  Neutral = 'NEUTRAL'
+  AI = 'AI'
+}
+
+export enum AIDifficulty {
+  Easy = 'EASY',
+  Normal = 'NORMAL',
+  Hard = 'HARD'
 }
 
 export enum EntityType {
@@ -11,6 +20,12 @@ export enum EntityType {
   Projectile = 'PROJECTILE'
 }
 
+// Unit and building kinds are defined in data/units.json and
+// data/buildings.json (see engine/definitions.ts), so any id from those files
+// is valid. The enums name the built-in ones the setup and the AI refer to.
+export type UnitTypeId = string;
+export type BuildingTypeId = string;
+
 export enum UnitType {
   Peasant = 'PEASANT',
   Militia = 'MILITIA',
@@ -21,12 +36,149 @@ export enum BuildingType {
   TownCenter = 'TOWN_CENTER',
   Barracks = 'BARRACKS',
   House = 'HOUSE',
-  Farm = 'FARM'
+  Farm = 'FARM',
+  LumberCamp = 'LUMBER_CAMP',
+  Mill = 'MILL',
+  Blacksmith = 'BLACKSMITH',
+  MiningCamp = 'MINING_CAMP',
+  WatchTower = 'WATCH_TOWER',
+  Wall = 'WALL',
+  Gate = 'GATE'
+}
+
+export enum TechType {
+  Forging = 'FORGING',
+  IronCasting = 'IRON_CASTING',
+  Fletching = 'FLETCHING',
+  ScaleMail = 'SCALE_MAIL',
+  ChainMail = 'CHAIN_MAIL',
+  Wheelbarrow = 'WHEELBARROW',
+  HandCart = 'HAND_CART',
+  DoubleBitAxe = 'DOUBLE_BIT_AXE',
+  HorseCollar = 'HORSE_COLLAR',
+  HeavyPlow = 'HEAVY_PLOW',
+  StoneMining = 'STONE_MINING',
+  GoldMining = 'GOLD_MINING'
+}
+
+// Unit stats a technology can raise; applied to living units when the
+// research completes and to every unit trained afterwards
+export type UnitStat = 'hp' | 'attackDamage' | 'attackRange' | 'moveSpeed' | 'sightRadius' | 'meleeArmor' | 'pierceArmor';
+
+// Player-wide economy values a technology can raise
+export type EconomyStat = 'carryCapacity' | 'woodGatherRate' | 'foodGatherRate' | 'stoneGatherRate' | 'goldGatherRate' | 'farmFood';
+
+export type TechModifier =
+  | { stat: UnitStat; units: UnitTypeId[]; add: number }
+  | { stat: EconomyStat; add: number };
+
+export interface TechDefinition {
+  name: string;
+  description: string;
+  building: BuildingTypeId; // Where it is researched
+  cost: ProductionCost;
+  requires: TechType[];
+  modifiers: TechModifier[];
 }
 
 export enum ResourceType {
   Wood = 'WOOD',
-  Food = 'FOOD'
+  Food = 'FOOD',
+  Stone = 'STONE',
+  Gold = 'GOLD'
+}
+
+// A stockpile holds every resource; a cost lists only what it needs
+export type ResourceAmounts = Record<ResourceType, number>;
+export type ResourceCost = Partial<ResourceAmounts>;
+export type ProductionCost = ResourceCost & { time: number }; // Seconds
+
+// Melee hits are reduced by melee armor, arrows by pierce armor
+export enum DamageType {
+  Melee = 'MELEE',
+  Pierce = 'PIERCE'
+}
+
+// Special behaviour the engine gives a unit or building kind
+export type UnitAbility =
+  | 'gather' // Collects resources and works farms
+  | 'build' // Lays foundations and constructs them
+  | 'ranged'; // Attacks with projectiles
+export type BuildingAbility =
+  | 'farm' // Holds food that workers harvest and that regrows over time
+  | 'capital' // Its owner is not defeated while one stands
+  | 'attack' // Shoots enemy units in range once built; needs the attack stats
+  | 'wall' // Placed as a line of segments that join up without a gap
+  | 'gate'; // A wall piece its owner's units can walk through
+
+// One piece of a model, in the renderer's units. A part without a shape is a
+// group that moves its `parts` together. `color` is "team", "roof" (a darker
+// team color) or "#rrggbb". Named parts are animated by the renderer: "arm"
+// swings while working, "load" shows the carried resource, "crops" wither on
+// a depleted farm and a gate's "door" opens while its owner's units pass.
+export interface MeshPart {
+  shape?: 'box' | 'sphere' | 'cylinder' | 'cone' | 'plane';
+  color?: string;
+  scale?: [number, number, number];
+  position?: [number, number, number];
+  rotation?: [number, number, number]; // Radians
+  shadow?: boolean;
+  name?: string;
+  parts?: MeshPart[];
+}
+
+export interface UnitStats {
+  hp: number;
+  attackDamage: number;
+  attackRange: number;
+  moveSpeed: number;
+  attackCooldown: number; // ms
+  radius: number;
+  sightRadius: number;
+  meleeArmor: number;
+  pierceArmor: number;
+}
+
+export interface UnitDefinition {
+  id: UnitTypeId;
+  name: string;
+  icon: string; // Lucide icon name, e.g. "sword"
+  cost: ProductionCost;
+  producedBy: BuildingTypeId[]; // Buildings that train it
+  abilities: UnitAbility[];
+  stats: UnitStats;
+  // Armor classes are free-form tags such as "cavalry" or "building". An
+  // attacker's bonuses add damage against each class the target has.
+  armorClasses: string[];
+  bonuses: Record<string, number>;
+  mesh: MeshPart[];
+}
+
+export interface BuildingStats {
+  hp: number;
+  radius: number;
+  sightRadius: number;
+  population: number; // Room added once built
+  meleeArmor: number;
+  pierceArmor: number;
+  // Buildings with the "attack" ability only
+  attackDamage?: number;
+  attackRange?: number;
+  attackCooldown?: number;
+}
+
+export interface BuildingDefinition {
+  id: BuildingTypeId;
+  name: string;
+  icon: string;
+  cost: ProductionCost;
+  producedBy: UnitTypeId[]; // Units that can construct it
+  abilities: BuildingAbility[];
+  dropOff: ResourceType[]; // Resources gatherers can deposit here
+  stats: BuildingStats;
+  armorClasses: string[];
+  bonuses: Record<string, number>;
+  mesh: MeshPart[];
 }
 
 export interface Vector2D {
@@ -38,37 +190,80 @@ export interface BaseEntity {
   id: string;
   position: Vector2D;
   radius: number;
-  owner: PlayerType;
+  owner: PlayerId;
   hp: number;
   maxHp: number;
   entityType: EntityType;
 }
 
+// Cached route, re-planned when the goal moves or the obstacle map changes
+export interface UnitPath {
+  goal: Vector2D;
+  waypoints: Vector2D[];
+  navVersion: number;
+}
+
 export interface Unit extends BaseEntity {
   entityType: EntityType.Unit;
-  unitType: UnitType;
+  unitType: UnitTypeId;
   targetId: string | null;
   moveTarget: Vector2D | null;
-  state: 'IDLE' | 'MOVING' | 'ATTACKING' | 'GATHERING' | 'BUILDING' | 'ATTACK_MOVING';
+  state: 'IDLE' | 'MOVING' | 'ATTACKING' | 'GATHERING' | 'RETURNING' | 'BUILDING' | 'ATTACK_MOVING';
   attackRange: number;
   attackDamage: number;
   attackCooldown: number;
   lastAttackTime: number;
   moveSpeed: number;
+  sightRadius: number;
+  meleeArmor: number;
+  pierceArmor: number;
+  // Carried load: how much of which resource the unit is bringing back
   gatherType?: ResourceType | null;
   carriedResources: number;
+  // Node (resource or farm) to go back to after a drop-off
+  gatherTargetId?: string | null;
+  path?: UnitPath | null;
+  // Set by a formation order: the group's pace (its slowest member) until
+  // the unit reaches its slot, and the way to face once there (radians)
+  formationSpeed?: number | null;
+  facing?: number | null;
+  stance: UnitStance;
+  // Where an idle unit picked its fight; see STANCES for how far it chases from there
+  leashOrigin?: Vector2D | null;
+  // Patrolling units attack-move from point to point, heading for patrolRoute[patrolIndex]
+  patrolRoute?: Vector2D[] | null;
+  patrolIndex?: number;
+  // Friendly unit or building the unit stays beside and defends
+  guardId?: string | null;
+}
+
+// A unit being trained or a technology being researched
+export interface ProductionItem {
+  unitType?: UnitTypeId;
+  tech?: TechType;
+  timeLeft: number;
+}
+
+// Where a building sends what it trains: a spot on the ground, or a resource
+// or unit to head for. Workers rallied to a resource start gathering it.
+export interface RallyPoint {
+  position: Vector2D;
+  targetId: string | null;
 }
 
 export interface Building extends BaseEntity {
   entityType: EntityType.Building;
-  buildingType: BuildingType;
+  buildingType: BuildingTypeId;
   constructionProgress: number; // 0 to 100
   isBuilt: boolean;
-  productionQueue: { unitType: UnitType; timeLeft: number }[];
+  productionQueue: ProductionItem[];
+  rallyPoint?: RallyPoint | null;
   // Farm Specifics
   resourceAmount?: number;
   maxResourceAmount?: number;
   lastGenerationTime?: number;
+  // Towers
+  lastAttackTime?: number;
 }
 
 export interface Resource extends BaseEntity {
@@ -80,19 +275,124 @@ export interface Resource extends BaseEntity {
 export interface Projectile extends BaseEntity {
   entityType: EntityType.Projectile;
   targetId: string;
-  damage: number;
+  damage: number; // Attack of the shooter when it fired
+  damageType: DamageType;
+  sourceType: UnitTypeId | BuildingTypeId; // Shooter's type, whose bonuses apply on impact
   speed: number;
 }
 
 export type GameEntity = Unit | Building | Resource | Projectile;
 
 export interface PlayerState {
-  resources: {
-    wood: number;
-    food: number;
-  };
+  resources: ResourceAmounts;
   population: number;
   maxPopulation: number;
+  // Slot settings, fixed for the whole match
+  controller: ControllerType;
+  color: number;
+  team: number; // Players sharing a team index are allies
+  defeated: boolean;
+  techs: TechType[]; // Researched, in completion order
+}
+
+// Lobby settings for one player slot
+export interface PlayerSlot {
+  controller: ControllerType;
+  color: number;
+  team: number;
+  // AI slots only
+  difficulty?: AIDifficulty; // Normal when omitted
+  aiController?: string; // Registered AIController id; the standard AI when omitted
+  strategy?: string; // AI_STRATEGIES key; picked at random when omitted
+}
+
+// Everything besides the seed needed to recreate a match's opening position
+export interface MatchSetup {
+  slots: PlayerSlot[]; // 2 to 8; slot i becomes player `P${i + 1}`
+}
+
+// How a unit reacts to enemies while it has no order to fight; see STANCES
+export enum UnitStance {
+  Aggressive = 'AGGRESSIVE',
+  Defensive = 'DEFENSIVE',
+  StandGround = 'STAND_GROUND',
+  NoAttack = 'NO_ATTACK'
+}
+
+// How a group order arranges the units around its target
+export enum FormationType {
+  Line = 'LINE',
+  Box = 'BOX',
+  Staggered = 'STAGGERED'
+}
+
+export enum CommandType {
+  Move = 'MOVE',
+  AttackMove = 'ATTACK_MOVE',
+  Attack = 'ATTACK',
+  Gather = 'GATHER',
+  Build = 'BUILD',
+  Train = 'TRAIN',
+  Research = 'RESEARCH',
+  Stop = 'STOP',
+  Reseed = 'RESEED',
+  CancelProduction = 'CANCEL_PRODUCTION',
+  SetRallyPoint = 'SET_RALLY_POINT',
+  Patrol = 'PATROL',
+  Guard = 'GUARD',
+  SetStance = 'SET_STANCE'
+}
+
+// Player orders. Plain JSON so they can be logged, replayed or sent over the
+// wire; the engine validates each one before applying it.
+// With a `formation`, each unit gets its own slot around the target; without one they all head for the target itself
+export interface MoveCommand { type: CommandType.Move; player: PlayerId; unitIds: string[]; target: Vector2D; formation?: FormationType }
+export interface AttackMoveCommand { type: CommandType.AttackMove; player: PlayerId; unitIds: string[]; target: Vector2D; formation?: FormationType }
+export interface AttackCommand { type: CommandType.Attack; player: PlayerId; unitIds: string[]; targetId: string }
+export interface GatherCommand { type: CommandType.Gather; player: PlayerId; unitIds: string[]; targetId: string }
+// Either lays a new foundation (buildingType + position) or sends builders to an existing one (targetId).
+// Walls take a `lineTo` as well and lay a segment on every grid step between the two points.
+export interface BuildCommand {
+  type: CommandType.Build;
+  player: PlayerId;
+  unitIds: string[];
+  buildingType?: BuildingTypeId;
+  position?: Vector2D;
+  lineTo?: Vector2D;
+  targetId?: string;
+}
+export interface TrainCommand { type: CommandType.Train; player: PlayerId; buildingId: string; unitType: UnitTypeId }
+export interface ResearchCommand { type: CommandType.Research; player: PlayerId; buildingId: string; tech: TechType }
+export interface StopCommand { type: CommandType.Stop; player: PlayerId; unitIds: string[] }
+export interface ReseedCommand { type: CommandType.Reseed; player: PlayerId; buildingId: string; unitIds: string[] }
+// Removes the item at `index` of the production queue and refunds it in full
+export interface CancelProductionCommand { type: CommandType.CancelProduction; player: PlayerId; buildingId: string; index: number }
+export interface SetRallyPointCommand { type: CommandType.SetRallyPoint; player: PlayerId; buildingId: string; position: Vector2D; targetId?: string }
+// Attack-moves to each waypoint in turn, then starts over from the first
+export interface PatrolCommand { type: CommandType.Patrol; player: PlayerId; unitIds: string[]; waypoints: Vector2D[] }
+// Follows a friendly unit or stays by a friendly building, fighting off enemies that come near
+export interface GuardCommand { type: CommandType.Guard; player: PlayerId; unitIds: string[]; targetId: string }
+export interface SetStanceCommand { type: CommandType.SetStance; player: PlayerId; unitIds: string[]; stance: UnitStance }
+
+export type Command =
+  | MoveCommand
+  | AttackMoveCommand
+  | AttackCommand
+  | GatherCommand
+  | BuildCommand
+  | TrainCommand
+  | ResearchCommand
+  | StopCommand
+  | ReseedCommand
+  | CancelProductionCommand
+  | SetRallyPointCommand
+  | PatrolCommand
+  | GuardCommand
+  | SetStanceCommand;
+
+export interface RejectedCommand {
+  command: Command;
+  reason: string;
 }
 
 export interface Camera {
@@ -100,14 +400,68 @@ export interface Camera {
   y: number;
 }
 
+export interface AIState {
+  state: 'ECONOMY' | 'ARMY' | 'ATTACK';
+  nextBuildTime: number;
+  lastUpdateTime: number;
+  rngState: number;
+  // Perception: the AI only knows what its own units have seen
+  knownEnemyBase: Vector2D | null;
+  scoutId: string | null;
+  // Which bot runs this player and how hard it plays
+  controller: string;
+  difficulty: AIDifficulty;
+  // Build order progress (see data/strategies)
+  strategy: string;
+  buildOrderStep: number;
+  stepStartedAt: number; // gameTime the current step became the next one
+}
+
+// One step of an AI build order. Done once the AI owns `count` of the unit
+// or building, counting queued units and unfinished foundations.
+export type BuildOrderStep =
+  | { train: UnitTypeId; count: number }
+  | { build: BuildingTypeId; count: number }
+  | { research: TechType };
+
+// An AI game plan, loaded from data/strategies/*.json
+export interface AIStrategy {
+  name: string;
+  buildOrder: BuildOrderStep[];
+  // Share of gathering peasants sent to each resource; missing ones get none
+  gatherRatio: Partial<ResourceAmounts>;
+  // Soldiers at home attack once there are `waveSize` of them and the match
+  // is at least `firstWaveAt` seconds old
+  attack: { waveSize: number; firstWaveAt: number };
+}
+
+// Tuning for one AI difficulty (see AI_PROFILES)
+export interface AIProfile {
+  reactionTime: number; // ms between decisions
+  apm: number; // Orders per minute; anything over the budget of a decision is dropped
+  peasantTarget: number;
+  farmTarget: number;
+  barracksTarget: number;
+  towerTarget: number; // Watch Towers it puts up beside harassed gatherers
+  micro: boolean; // Focus fire and pull badly wounded soldiers out of fights
+}
+
 export interface GameState {
   entities: Record<string, GameEntity>;
-  players: Record<PlayerType, PlayerState>;
+  players: Record<PlayerId, PlayerState>; // Real players only, in slot order
   selectedEntityIds: string[];
-  gameTime: number;
+  tick: number; // Number of fixed steps simulated so far
+  gameTime: number; // Simulated milliseconds, advanced in fixed ticks
+  seed: number;
+  rngState: number; // Seeded PRNG state; all simulation randomness draws from it
+  nextEntityId: number;
+  navVersion: number; // Bumped whenever a building or resource appears or disappears
+  ai: Record<PlayerId, AIState>; // One entry per AI-controlled player
+  // Per-player fog of war tiles (see engine/visibility.ts)
+  fog: Record<PlayerId, number[]>;
   gameOver: boolean;
-  winner: PlayerType | null;
-  buildingToPlace: BuildingType | null;
+  winner: number | null; // Winning team index
+  buildingToPlace: BuildingTypeId | null;
   camera: Camera;
 }
 
@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+import { Camera, Vector2D } from '../types';
+import { CAMERA_FOV, CAMERA_HEIGHT, CAMERA_OFFSET_Z } from '../constants';
+
+// The 3D view looks at the centre of the 2D camera rectangle from above and
+// slightly south. GameMap renders through this rig and the minimap uses it
+// to draw what the main view can see.
+export const applyCameraRig = (camera: THREE.PerspectiveCamera, cam: Camera) => {
+  const centerX = cam.x + window.innerWidth / 2;
+  const centerZ = cam.y + window.innerHeight / 2;
+  camera.position.set(centerX, CAMERA_HEIGHT, centerZ + CAMERA_OFFSET_Z);
+  camera.lookAt(centerX, 0, centerZ);
+};
+
+const scratchCamera = new THREE.PerspectiveCamera(CAMERA_FOV, 1, 10, 3000);
+const scratchRay = new THREE.Raycaster();
+const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const scratchHit = new THREE.Vector3();
+
+// Ground corners of the visible area (top-left, top-right, bottom-right,
+// bottom-left of the screen), in world coordinates
+export const getViewFootprint = (cam: Camera): Vector2D[] => {
+  scratchCamera.aspect = window.innerWidth / window.innerHeight;
+  scratchCamera.updateProjectionMatrix();
+  applyCameraRig(scratchCamera, cam);
+  scratchCamera.updateMatrixWorld();
+
+  return [[-1, 1], [1, 1], [1, -1], [-1, -1]].map(([x, y]) => {
+    scratchRay.setFromCamera(new THREE.Vector2(x, y), scratchCamera);
+    const hit = scratchRay.ray.intersectPlane(groundPlane, scratchHit);
+    return hit ? { x: hit.x, y: hit.z } : { x: scratchCamera.position.x, y: scratchCamera.position.z };
+  });
+};
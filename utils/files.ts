@@ -0,0 +1,26 @@
+// Browser helpers for exporting and importing match files
+
+export const downloadTextFile = (filename: string, contents: string, mimeType = 'application/json') => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Opens the native file picker and resolves with the chosen file's text
+export const pickTextFile = (accept = '.json,application/json'): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return reject(new Error('No file selected'));
+      file.text().then(resolve, reject);
+    };
+    input.click();
+  });
+};
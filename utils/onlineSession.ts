@@ -0,0 +1,34 @@
+import { RELAY_PORT } from '../constants';
+import { createClientId } from '../net/client';
+
+// sessionStorage backed relay settings. The client id survives a reload of
+// the tab, so the relay recognizes the player and resumes their match.
+
+const SESSION_KEY = 'micro-rts-online';
+
+export interface OnlineSettings {
+  url: string;
+  room: string;
+  name: string;
+  clientId: string;
+  spectator: boolean;
+}
+
+export const loadOnlineSettings = (): OnlineSettings => {
+  const defaults: OnlineSettings = {
+    url: `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`,
+    room: 'lobby',
+    name: 'Player',
+    clientId: createClientId(),
+    spectator: false
+  };
+  try {
+    return { ...defaults, ...JSON.parse(sessionStorage.getItem(SESSION_KEY) || '{}') };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveOnlineSettings = (settings: OnlineSettings) => {
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,32 @@
+import { SAVE_SLOT_COUNT } from '../constants';
+
+// localStorage backed save slots. Values are serialized SaveFile JSON.
+
+const SLOT_PREFIX = 'micro-rts-save-';
+
+export interface SaveSlotInfo {
+  slot: number;
+  savedAt: string | null;
+  gameTime: number | null;
+}
+
+const slotKey = (slot: number) => `${SLOT_PREFIX}${slot}`;
+
+export const listSaveSlots = (): SaveSlotInfo[] => {
+  return Array.from({ length: SAVE_SLOT_COUNT }, (_, slot) => {
+    const raw = localStorage.getItem(slotKey(slot));
+    if (!raw) return { slot, savedAt: null, gameTime: null };
+    try {
+      const data = JSON.parse(raw);
+      return { slot, savedAt: data.savedAt ?? null, gameTime: data.state?.gameTime ?? null };
+    } catch {
+      return { slot, savedAt: null, gameTime: null };
+    }
+  });
+};
+
+export const writeSaveSlot = (slot: number, json: string) => localStorage.setItem(slotKey(slot), json);
+
+export const readSaveSlot = (slot: number) => localStorage.getItem(slotKey(slot));
+
+export const deleteSaveSlot = (slot: number) => localStorage.removeItem(slotKey(slot));